@@ -1,26 +1,250 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { Loader } from '@react-three/drei';
 import Experience from './components/Experience';
 import HandController from './components/HandController';
-import { AppState, HandGesture, HandTrackingResult } from './types';
-import { COLORS, CHRISTMAS_MUSIC_URL } from './constants';
+import PointerController from './components/PointerController';
+import TouchController from './components/TouchController';
+import SettingsPanel from './components/SettingsPanel';
+import PhotoManager from './components/PhotoManager';
+import CalibrationWizard from './components/CalibrationWizard';
+import DebugOverlay from './components/DebugOverlay';
+import { PhotoLibraryService } from './services/photoLibraryService';
+import { PhotoTextureCache } from './services/photoTextureCache';
+import { readExifMetadata } from './services/exif';
+import { LandmarkRecorder } from './services/landmarkRecorder';
+import {
+  loadActiveProfileName,
+  loadCalibrationProfiles,
+  saveActiveProfileName,
+  saveCalibrationProfiles
+} from './services/gestureCalibration';
+import { listCameras, loadCameraSettings, saveCameraSettings } from './services/cameraDevices';
+import { loadSetting, saveSetting } from './services/settingsStorage';
+import { resolveTreeShape } from './services/treeShapes';
+import { samplePicture } from './services/pictureSampler';
+import {
+  loadActiveThemeId,
+  loadCustomThemes,
+  parseTheme,
+  saveActiveThemeId,
+  saveCustomThemes,
+  themeToBlob
+} from './services/themes';
+import { AudioAnalyser } from './services/audioAnalyser';
+import { QualityManager } from './services/qualityManager';
+import {
+  MusicPlayer,
+  MusicPlayerState,
+  loadPlaybackSettings,
+  savePlaybackSettings,
+  trackNameFromUrl
+} from './services/musicPlayer';
+import { TrackLibraryService } from './services/trackLibraryService';
+import { SceneRecorder, isRecordingSupported } from './services/sceneRecorder';
+import { composeSnapshot } from './services/snapshotCard';
+import { downloadBlob } from './services/download';
+import {
+  AppState,
+  CalibrationProfile,
+  CameraSettings,
+  CameraStatus,
+  GestureAction,
+  GestureBindings,
+  HandGesture,
+  HandResults,
+  HandTrackingResult,
+  InputSource,
+  LandmarkRecording,
+  MotionGesture,
+  PerformanceStats,
+  Photo,
+  PhotoFrameStyle,
+  PhotoKind,
+  PhotoMetadata,
+  PictureLayout,
+  PlaybackSettings,
+  QualityPreference,
+  QualityTier,
+  RecordingSettings,
+  SnapshotSettings,
+  StoredPhoto,
+  Theme,
+  Track,
+  TreeShape,
+  TwoHandGesture
+} from './types';
+import {
+  CONFIG,
+  DEFAULT_AUDIO_SENSITIVITY,
+  DEFAULT_GESTURE_BINDINGS,
+  DEFAULT_GESTURE_THRESHOLDS,
+  DEFAULT_PHOTO_FRAME,
+  DEFAULT_PICTURE_TEXT,
+  DEFAULT_RECORDING_SETTINGS,
+  DEFAULT_SNAPSHOT_SETTINGS,
+  DEFAULT_SVG_SHAPE_PATH,
+  DEFAULT_THEME,
+  GESTURE_LABELS,
+  ACTION_LABELS,
+  MEDIA_ACCEPT,
+  POINTER_KEY_GESTURES,
+  QUALITY_PROFILES,
+  SNAPSHOT_RESOLUTIONS,
+  THEME_PRESETS
+} from './constants';
+
+const BINDINGS_SETTING_KEY = 'gestureBindings';
+const TWO_HAND_SETTING_KEY = 'twoHandMode';
+const DEBUG_OVERLAY_SETTING_KEY = 'showDebugOverlay';
+const TREE_SHAPE_SETTING_KEY = 'treeShape';
+const SHAPE_PATH_SETTING_KEY = 'customShapePath';
+const PICTURE_TEXT_SETTING_KEY = 'pictureText';
+const AUDIO_SENSITIVITY_SETTING_KEY = 'audioSensitivity';
+const RECORDING_SETTING_KEY = 'recordingSettings';
+const SNAPSHOT_SETTING_KEY = 'snapshotSettings';
+const UPLOADER_NAME_SETTING_KEY = 'uploaderName';
+const QUALITY_SETTING_KEY = 'qualityPreference';
+const PHOTO_FRAME_SETTING_KEY = 'photoFrame';
+
+// Saved tables are merged per state, so gestures that newer defaults bind keep working for people
+// who customised an older table. Cleared bindings are saved as NONE, so the merge doesn't bring them back
+const loadGestureBindings = (): GestureBindings => {
+  const saved = loadSetting<Partial<GestureBindings>>(BINDINGS_SETTING_KEY, {});
+  return Object.fromEntries(
+    Object.values(AppState).map(state => [state, { ...DEFAULT_GESTURE_BINDINGS[state], ...saved[state] }])
+  ) as GestureBindings;
+};
+
+// Some systems leave the MIME type empty for clips (.mkv, .mov on Windows), so the name decides then
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|qt|webm|mkv|ogv|avi|3gp|3g2)$/i;
+
+const mediaKind = (blob: Blob): PhotoKind => {
+  if (blob.type) return blob.type.startsWith('video/') ? 'video' : 'image';
+  return blob instanceof File && VIDEO_EXTENSIONS.test(blob.name) ? 'video' : 'image';
+};
+
+const photoFromRecord = (record: StoredPhoto): Photo => ({
+  id: record.id,
+  url: URL.createObjectURL(record.blob),
+  kind: mediaKind(record.blob),
+  caption: record.caption,
+  date: record.date,
+  uploader: record.uploader
+});
 
 const App = () => {
   const [appState, setAppState] = useState<AppState>(AppState.TREE);
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isPhotoManagerOpen, setIsPhotoManagerOpen] = useState(false);
+  const [uploaderName, setUploaderName] = useState<string>(() => loadSetting(UPLOADER_NAME_SETTING_KEY, ''));
+  const [photoFrame, setPhotoFrame] = useState<PhotoFrameStyle>(() => loadSetting(PHOTO_FRAME_SETTING_KEY, DEFAULT_PHOTO_FRAME));
   const [isHandPresent, setIsHandPresent] = useState(false);
   const [currentGesture, setCurrentGesture] = useState<HandGesture>(HandGesture.NONE);
   const [activePhotoIndex, setActivePhotoIndex] = useState<number>(0);
+  const [photoLibrary] = useState(() => new PhotoLibraryService());
+  const [inputSource, setInputSource] = useState<InputSource>(InputSource.HAND);
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(loadGestureBindings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [twoHandMode, setTwoHandMode] = useState<boolean>(() => loadSetting(TWO_HAND_SETTING_KEY, false));
+  const [showDebugOverlay, setShowDebugOverlay] = useState<boolean>(() => loadSetting(DEBUG_OVERLAY_SETTING_KEY, false));
+  // Mutable on purpose: written every frame by the render loop and tracking, read by the overlay
+  const [perfStats] = useState<PerformanceStats>(() => ({
+    renderFps: 0,
+    inferenceFps: 0,
+    inferenceLatencyMs: 0,
+    inferenceIntervalMs: 0,
+    inferenceMode: 'off',
+    qualityTier: 'high',
+    qualityAuto: true,
+    photoTextureBytes: 0
+  }));
+  // Decoded photo textures; owns the photos' object URLs once they're in the album
+  const [photoTextures] = useState(() => new PhotoTextureCache(perfStats));
+  // Rendering tier: measured from frame times unless the user pinned one
+  const [qualityPreference, setQualityPreference] = useState<QualityPreference>(
+    () => loadSetting(QUALITY_SETTING_KEY, 'auto')
+  );
+  const [qualityManager] = useState(() => new QualityManager(tier => setAutoQualityTier(tier)));
+  const [autoQualityTier, setAutoQualityTier] = useState<QualityTier>(() => qualityManager.currentTier);
+  const qualityTier = qualityPreference === 'auto' ? autoQualityTier : qualityPreference;
+  const quality = QUALITY_PROFILES[qualityTier];
+
+  // What the particles gather into
+  const [treeShape, setTreeShape] = useState<TreeShape>(() => {
+    // A shape removed in a later version shouldn't leave the tree without a generator
+    const saved = loadSetting<string>(TREE_SHAPE_SETTING_KEY, TreeShape.CONE);
+    return (Object.values(TreeShape) as string[]).includes(saved) ? saved as TreeShape : TreeShape.CONE;
+  });
+  const [customShapePath, setCustomShapePath] = useState<string>(() => loadSetting(SHAPE_PATH_SETTING_KEY, DEFAULT_SVG_SHAPE_PATH));
+  const shapeGenerator = useMemo(() => resolveTreeShape(treeShape, customShapePath), [treeShape, customShapePath]);
+
+  // PICTURE formation: a typed greeting, or an uploaded image for this session
+  const [pictureText, setPictureText] = useState<string>(() => loadSetting(PICTURE_TEXT_SETTING_KEY, DEFAULT_PICTURE_TEXT));
+  const [pictureImage, setPictureImage] = useState<File | null>(null);
+  const [pictureLayout, setPictureLayout] = useState<PictureLayout | null>(null);
+
+  // Camera selection
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('loading');
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Landmark session recording / replay (for testing gesture logic without a live camera)
+  const [landmarkRecorder] = useState(() => new LandmarkRecorder());
+  const [isRecordingLandmarks, setIsRecordingLandmarks] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<LandmarkRecording | null>(null);
+
+  // Per-user gesture calibration
+  const [calibrationProfiles, setCalibrationProfiles] = useState<CalibrationProfile[]>(loadCalibrationProfiles);
+  const [activeProfileName, setActiveProfileName] = useState<string | null>(loadActiveProfileName);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const calibrationListenerRef = useRef<((results: HandResults) => void) | null>(null);
+  const gestureThresholds = useMemo(
+    () => calibrationProfiles.find(p => p.name === activeProfileName)?.thresholds ?? DEFAULT_GESTURE_THRESHOLDS,
+    [calibrationProfiles, activeProfileName]
+  );
   
-  // Music State
-  const [musicUrl, setMusicUrl] = useState<string>(CHRISTMAS_MUSIC_URL);
-  const [isMusicPlaying, setIsMusicPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  // Theme presets plus imported ones
+  const [customThemes, setCustomThemes] = useState<Theme[]>(loadCustomThemes);
+  const [activeThemeId, setActiveThemeId] = useState<string>(loadActiveThemeId);
+  const themes = useMemo(() => [...THEME_PRESETS, ...customThemes], [customThemes]);
+  const theme = themes.find(t => t.id === activeThemeId) ?? DEFAULT_THEME;
+
+  // Music State: the uploaded playlist, or the theme's track until there is one
+  const [trackLibrary] = useState(() => new TrackLibraryService());
+  const [uploadedTracks, setUploadedTracks] = useState<Track[]>([]);
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const [playerState, setPlayerState] = useState<MusicPlayerState>({ track: null, isPlaying: false });
+  const [musicPlayer] = useState(() => new MusicPlayer(playbackSettings, setPlayerState));
+  const themeTrack = useMemo<Track | null>(
+    () => (theme.musicUrl ? { id: `theme:${theme.musicUrl}`, name: trackNameFromUrl(theme.musicUrl), url: theme.musicUrl } : null),
+    [theme.musicUrl]
+  );
+  const playlist = useMemo(
+    () => (uploadedTracks.length > 0 ? uploadedTracks : themeTrack ? [themeTrack] : []),
+    [uploadedTracks, themeTrack]
+  );
+  const isMusicPlaying = playerState.isPlaying;
+  const [audioAnalyser] = useState(() => new AudioAnalyser());
+  const [audioSensitivity, setAudioSensitivity] = useState<number>(
+    () => loadSetting(AUDIO_SENSITIVITY_SETTING_KEY, DEFAULT_AUDIO_SENSITIVITY)
+  );
   
   // Refs to keep track of state inside stable callbacks without triggering re-renders of children
   const appStateRef = useRef<AppState>(AppState.TREE);
-  const photosRef = useRef<string[]>([]);
+  const photosRef = useRef<Photo[]>([]);
+  const inputSourceRef = useRef<InputSource>(InputSource.HAND);
+  const lastHandSeenRef = useRef<number>(performance.now());
+  const lastGestureRef = useRef<HandGesture>(HandGesture.NONE);
+  const lastTwoHandGestureRef = useRef<TwoHandGesture>(TwoHandGesture.NONE);
+  const gestureBindingsRef = useRef<GestureBindings>(gestureBindings);
+  const toggleMusicRef = useRef<() => void>(() => {});
+  const toggleVideoRecordingRef = useRef<() => void>(() => {});
+  const cameraPreviewRef = useRef<HTMLVideoElement | null>(null);
+  const snapshotRef = useRef<((width: number) => HTMLCanvasElement | null) | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const treeSpinRef = useRef<number>(0); // Angular velocity impulse for the tree, rad/s. Decays in Experience
   const handDataRef = useRef<HandTrackingResult>({
     gesture: HandGesture.NONE,
     position: { x: 0.5, y: 0.5 },
@@ -36,50 +260,246 @@ const App = () => {
     photosRef.current = photos;
   }, [photos]);
 
-  // Set initial volume
   useEffect(() => {
-    if (audioRef.current) {
-        audioRef.current.volume = 0.4;
+    gestureBindingsRef.current = gestureBindings;
+  }, [gestureBindings]);
+
+  // Restore the saved album once on startup
+  useEffect(() => {
+    let cancelled = false;
+    photoLibrary.loadAll().then(records => {
+      if (cancelled || records.length === 0) return;
+      const restored = records.map(photoFromRecord);
+      // Anything uploaded while we were loading goes after the restored album
+      setPhotos(prev => [...restored, ...prev]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [photoLibrary]);
+
+  // ...and the saved playlist
+  useEffect(() => {
+    let cancelled = false;
+    trackLibrary.loadAll().then(records => {
+      if (cancelled || records.length === 0) return;
+      const restored = records.map(record => ({ id: record.id, name: record.name, url: URL.createObjectURL(record.blob) }));
+      setUploadedTracks(prev => [...restored, ...prev]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [trackLibrary]);
+
+  // Set by an upload so its first track starts once the player has the new playlist
+  const pendingTrackIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    musicPlayer.setTracks(playlist);
+    if (pendingTrackIdRef.current) {
+      musicPlayer.playTrack(pendingTrackIdRef.current);
+      pendingTrackIdRef.current = null;
     }
-  }, []);
+  }, [musicPlayer, playlist]);
+
+  // A video clip zoomed with its sound on plays over quieter music
+  const duckMusic = useCallback((ducked: boolean) => musicPlayer.setDucked(ducked), [musicPlayer]);
+
+  useEffect(() => {
+    audioAnalyser.sensitivity = audioSensitivity;
+  }, [audioAnalyser, audioSensitivity]);
+
+  useEffect(() => {
+    qualityManager.setAuto(qualityPreference === 'auto');
+  }, [qualityManager, qualityPreference]);
+
+  useEffect(() => {
+    perfStats.qualityTier = qualityTier;
+    perfStats.qualityAuto = qualityPreference === 'auto';
+  }, [perfStats, qualityTier, qualityPreference]);
 
   const toggleMusic = useCallback(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
     if (isMusicPlaying) {
-      audio.pause();
-      setIsMusicPlaying(false);
+      musicPlayer.pause();
     } else {
-      const playPromise = audio.play();
-      if (playPromise !== undefined) {
-        playPromise
-          .then(() => {
-            setIsMusicPlaying(true);
-          })
-          .catch(error => {
-            console.error("Audio playback failed:", error);
-            setIsMusicPlaying(false);
-          });
-      }
+      audioAnalyser.attach(musicPlayer.decks);
+      musicPlayer.play();
     }
-  }, [isMusicPlaying]);
+  }, [isMusicPlaying, musicPlayer, audioAnalyser]);
 
-  const handleMusicUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const file = e.target.files[0];
-      const url = URL.createObjectURL(file);
-      setMusicUrl(url);
-      setIsMusicPlaying(true);
+  useEffect(() => {
+    toggleMusicRef.current = toggleMusic;
+  }, [toggleMusic]);
+
+  // High-resolution stills, framed as a card
+  const [snapshotSettings, setSnapshotSettings] = useState<SnapshotSettings>(
+    () => ({ ...DEFAULT_SNAPSHOT_SETTINGS, ...loadSetting<Partial<SnapshotSettings>>(SNAPSHOT_SETTING_KEY, {}) })
+  );
+  const [isTakingSnapshot, setIsTakingSnapshot] = useState(false);
+  const snapshotSettingsRef = useRef(snapshotSettings);
+  const paletteRef = useRef(theme.palette);
+
+  useEffect(() => {
+    snapshotSettingsRef.current = snapshotSettings;
+    paletteRef.current = theme.palette;
+  }, [snapshotSettings, theme.palette]);
+
+  // Stable so the gesture runner doesn't change with every settings edit
+  const takeSnapshot = useCallback(async () => {
+    const settings = snapshotSettingsRef.current;
+    setIsTakingSnapshot(true);
+    try {
+      // Rendering at high resolution can fail too (lost context, texture size limits)
+      const scene = snapshotRef.current?.(SNAPSHOT_RESOLUTIONS[settings.resolution].width);
+      if (!scene) return;
+      const blob = await composeSnapshot(scene, settings.frame, settings.caption, paletteRef.current);
+      if (blob) downloadBlob(blob, `otman-${Date.now()}.png`);
+    } catch (e) {
+      console.error("Failed to save snapshot:", e);
+    } finally {
+      setIsTakingSnapshot(false);
     }
   }, []);
 
-  // Effect to restart playback when music source changes if it's supposed to be playing
-  useEffect(() => {
-    if (isMusicPlaying && audioRef.current) {
-        audioRef.current.play().catch(e => console.warn("Playback failed on source change", e));
+  const updateSnapshotSettings = useCallback((settings: SnapshotSettings) => {
+    setSnapshotSettings(settings);
+    saveSetting(SNAPSHOT_SETTING_KEY, settings);
+  }, []);
+
+  // Video recording of the scene and music
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(
+    () => ({ ...DEFAULT_RECORDING_SETTINGS, ...loadSetting<Partial<RecordingSettings>>(RECORDING_SETTING_KEY, {}) })
+  );
+  const [isRecordingVideo, setIsRecordingVideo] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [sceneRecorder] = useState(() => new SceneRecorder(
+    blob => downloadBlob(blob, `otman-${Date.now()}.webm`),
+    setIsRecordingVideo
+  ));
+
+  const toggleVideoRecording = useCallback(async () => {
+    if (sceneRecorder.isRecording) {
+      sceneRecorder.stop();
+      return;
     }
-  }, [musicUrl]); // Intentionally omitting isMusicPlaying to avoid conflict with toggleMusic
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setRecordingError(null);
+    try {
+      // Routing the music through Web Audio is what makes it recordable
+      await audioAnalyser.attach(musicPlayer.decks);
+      // Same rule as the on-screen preview, which touch mode hides
+      const showCamera = inputSource !== InputSource.TOUCH && !replayRecording;
+      const started = sceneRecorder.start({
+        canvas,
+        audio: audioAnalyser.captureStream(),
+        overlay: recordingSettings.includeOverlay
+          ? {
+              camera: showCamera ? cameraPreviewRef.current : null,
+              mirrorCamera: cameraSettings.mirror,
+              title: 'Otman',
+              subtitle: theme.subtitle
+            }
+          : null
+      }, recordingSettings.maxDurationSeconds);
+      if (!started) setRecordingError("This browser couldn't start recording.");
+    } catch (e) {
+      console.error("Failed to start recording:", e);
+      setRecordingError(`Couldn't start recording: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [sceneRecorder, audioAnalyser, musicPlayer, inputSource, replayRecording, recordingSettings, cameraSettings, theme]);
+
+  useEffect(() => {
+    toggleVideoRecordingRef.current = toggleVideoRecording;
+  }, [toggleVideoRecording]);
+
+  useEffect(() => {
+    if (!isRecordingVideo) return;
+    setRecordingSeconds(0);
+    const started = performance.now();
+    const interval = setInterval(() => setRecordingSeconds(Math.floor((performance.now() - started) / 1000)), 250);
+    return () => clearInterval(interval);
+  }, [isRecordingVideo]);
+
+  const updateRecordingSettings = useCallback((settings: RecordingSettings) => {
+    setRecordingSettings(settings);
+    saveSetting(RECORDING_SETTING_KEY, settings);
+  }, []);
+
+  const handleMusicUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const files = Array.from(e.target.files);
+    e.target.value = ''; // Picking the same file again should upload it again
+    audioAnalyser.attach(musicPlayer.decks);
+    const records = await trackLibrary.addTracks(files);
+    if (records.length === 0) return;
+    const added = records.map(record => ({ id: record.id, name: record.name, url: URL.createObjectURL(record.blob) }));
+    // Start on the first new track right away, as a single upload always did
+    pendingTrackIdRef.current = added[0].id;
+    setUploadedTracks(prev => [...prev, ...added]);
+  }, [audioAnalyser, musicPlayer, trackLibrary]);
+
+  const removeTrack = useCallback((id: string) => {
+    const track = uploadedTracks.find(t => t.id === id);
+    if (track) URL.revokeObjectURL(track.url);
+    setUploadedTracks(prev => prev.filter(t => t.id !== id));
+    trackLibrary.removeTrack(id);
+  }, [trackLibrary, uploadedTracks]);
+
+  const clearTracks = useCallback(() => {
+    uploadedTracks.forEach(track => URL.revokeObjectURL(track.url));
+    setUploadedTracks([]);
+    trackLibrary.clear();
+  }, [trackLibrary, uploadedTracks]);
+
+  const playTrack = useCallback((id: string) => {
+    audioAnalyser.attach(musicPlayer.decks);
+    musicPlayer.playTrack(id);
+  }, [audioAnalyser, musicPlayer]);
+
+  const updatePlaybackSettings = useCallback((settings: PlaybackSettings) => {
+    setPlaybackSettings(settings);
+    savePlaybackSettings(settings);
+    musicPlayer.setVolume(settings.volume);
+    musicPlayer.setShuffle(settings.shuffle);
+    musicPlayer.setRepeat(settings.repeat);
+  }, [musicPlayer]);
+
+  // Executes a bound action. Reads everything through refs so it stays stable.
+  const runGestureAction = useCallback((action: GestureAction) => {
+      const photoCount = photosRef.current.length;
+      switch (action) {
+          case GestureAction.SHOW_TREE:
+            setAppState(AppState.TREE);
+            break;
+          case GestureAction.SHOW_SCATTER:
+            setAppState(AppState.SCATTER);
+            break;
+          case GestureAction.SHOW_PICTURE:
+            setAppState(AppState.PICTURE);
+            break;
+          case GestureAction.SHOW_ZOOM:
+            // Only allow entering zoom if we have photos
+            if (photoCount > 0) setAppState(AppState.ZOOM);
+            break;
+          case GestureAction.NEXT_PHOTO:
+            if (photoCount > 0) setActivePhotoIndex(i => (i + 1) % photoCount);
+            break;
+          case GestureAction.PREV_PHOTO:
+            if (photoCount > 0) setActivePhotoIndex(i => (i - 1 + photoCount) % photoCount);
+            break;
+          case GestureAction.TOGGLE_MUSIC:
+            toggleMusicRef.current();
+            break;
+          case GestureAction.TAKE_SNAPSHOT:
+            takeSnapshot();
+            break;
+          case GestureAction.TOGGLE_RECORDING:
+            toggleVideoRecordingRef.current();
+            break;
+      }
+  }, [takeSnapshot]);
 
   // Stable callback that NEVER changes reference.
   const onHandUpdateProxy = useCallback((result: HandTrackingResult) => {
@@ -90,68 +510,363 @@ const App = () => {
 
       // 3. UI Updates (Throttled by React)
       setIsHandPresent(prev => prev !== result.isPresent ? result.isPresent : prev);
-      
-      setCurrentGesture(prev => {
-        if (prev !== result.gesture) {
-          // GESTURE STATE MACHINE
+
+      // 4. Motion gestures: browse photos while zoomed, spin the tree while it stands
+      if (result.motion) {
           const currentAppState = appStateRef.current;
-          
-          if (result.isPresent) {
-            switch (result.gesture) {
-                case HandGesture.FIST:
-                  if (currentAppState !== AppState.TREE) setAppState(AppState.TREE);
-                  break;
-                case HandGesture.OPEN_PALM:
-                  if (currentAppState !== AppState.SCATTER) setAppState(AppState.SCATTER);
-                  break;
-                case HandGesture.TWO_FINGERS:
-                  // Only allow entering zoom if we have photos
-                  if (currentAppState === AppState.SCATTER && photosRef.current.length > 0) {
-                      setAppState(AppState.ZOOM);
-                  }
-                  break;
-            }
+          if (currentAppState === AppState.ZOOM) {
+              if (result.motion === MotionGesture.SWIPE_LEFT || result.motion === MotionGesture.SWIPE_UP) {
+                  runGestureAction(GestureAction.NEXT_PHOTO);
+              } else if (result.motion === MotionGesture.SWIPE_RIGHT || result.motion === MotionGesture.SWIPE_DOWN) {
+                  runGestureAction(GestureAction.PREV_PHOTO);
+              }
+          } else if (currentAppState === AppState.TREE) {
+              switch (result.motion) {
+                  case MotionGesture.SWIPE_LEFT: treeSpinRef.current -= 3; break;
+                  case MotionGesture.SWIPE_RIGHT: treeSpinRef.current += 3; break;
+                  case MotionGesture.STIR_CW: treeSpinRef.current -= 6; break;
+                  case MotionGesture.STIR_CCW: treeSpinRef.current += 6; break;
+              }
           }
-          return result.gesture;
-        }
-        return prev;
+      }
+
+      // 5. Bimanual confirm: the pointing hand has already selected a photo, zoom into it
+      const twoHandGesture = result.twoHand?.gesture ?? TwoHandGesture.NONE;
+      if (twoHandGesture !== lastTwoHandGestureRef.current) {
+          lastTwoHandGestureRef.current = twoHandGesture;
+          if (twoHandGesture === TwoHandGesture.POINT_CONFIRM && appStateRef.current === AppState.SCATTER) {
+              runGestureAction(GestureAction.SHOW_ZOOM);
+          }
+      }
+
+      // 6. GESTURE STATE MACHINE - actions fire once, on the frame a gesture changes
+      if (lastGestureRef.current === result.gesture) return;
+      lastGestureRef.current = result.gesture;
+      setCurrentGesture(result.gesture);
+
+      // While both hands are busy manipulating, single-hand bindings stay quiet
+      if (result.isPresent && twoHandGesture === TwoHandGesture.NONE) {
+          const action = gestureBindingsRef.current[appStateRef.current]?.[result.gesture];
+          if (action) runGestureAction(action);
+      }
+  }, [runGestureAction]);
+
+  const updateGestureBindings = useCallback((bindings: GestureBindings) => {
+      setGestureBindings(bindings);
+      saveSetting(BINDINGS_SETTING_KEY, bindings);
+  }, []);
+
+  const resetGestureBindings = useCallback(() => {
+      updateGestureBindings(DEFAULT_GESTURE_BINDINGS);
+  }, [updateGestureBindings]);
+
+  const updateTwoHandMode = useCallback((enabled: boolean) => {
+      setTwoHandMode(enabled);
+      saveSetting(TWO_HAND_SETTING_KEY, enabled);
+  }, []);
+
+  const updateShowDebugOverlay = useCallback((enabled: boolean) => {
+      setShowDebugOverlay(enabled);
+      saveSetting(DEBUG_OVERLAY_SETTING_KEY, enabled);
+  }, []);
+
+  const updatePhotoFrame = useCallback((style: PhotoFrameStyle) => {
+      setPhotoFrame(style);
+      saveSetting(PHOTO_FRAME_SETTING_KEY, style);
+  }, []);
+
+  const updateQualityPreference = useCallback((preference: QualityPreference) => {
+      setQualityPreference(preference);
+      saveSetting(QUALITY_SETTING_KEY, preference);
+  }, []);
+
+  const updateAudioSensitivity = useCallback((sensitivity: number) => {
+      setAudioSensitivity(sensitivity);
+      saveSetting(AUDIO_SENSITIVITY_SETTING_KEY, sensitivity);
+  }, []);
+
+  const updateTreeShape = useCallback((shape: TreeShape) => {
+      setTreeShape(shape);
+      saveSetting(TREE_SHAPE_SETTING_KEY, shape);
+  }, []);
+
+  const updateCustomShapePath = useCallback((path: string) => {
+      setCustomShapePath(path);
+      saveSetting(SHAPE_PATH_SETTING_KEY, path);
+  }, []);
+
+  const updatePictureText = useCallback((text: string) => {
+      setPictureText(text);
+      saveSetting(PICTURE_TEXT_SETTING_KEY, text);
+  }, []);
+
+  // Resample whenever the source changes; a stale result is dropped if a newer one started
+  useEffect(() => {
+      let cancelled = false;
+      const source = pictureImage
+          ? { kind: 'image' as const, image: pictureImage }
+          : { kind: 'text' as const, text: pictureText };
+      samplePicture(source, quality.particleCount, theme.palette).then(layout => {
+          if (!cancelled) setPictureLayout(layout);
       });
+      return () => { cancelled = true; };
+  }, [pictureText, pictureImage, theme.palette, quality.particleCount]);
+
+  const selectTheme = useCallback((id: string) => {
+      setActiveThemeId(id);
+      saveActiveThemeId(id);
   }, []);
 
-  const handlePhotoUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      const newUrls = Array.from(e.target.files).map(file => URL.createObjectURL(file as Blob));
-      // Just append new photos
-      setPhotos(prev => [...prev, ...newUrls]);
-    }
+  // Throws when the file can't be read or parsed so the settings panel can say so
+  const importTheme = useCallback(async (file: File) => {
+      const imported = parseTheme(await file.text());
+      // Re-importing an edited export replaces it; presets are never overwritten
+      if (THEME_PRESETS.some(p => p.id === imported.id)) imported.id = `custom-${Date.now()}`;
+      const next = [...customThemes.filter(t => t.id !== imported.id), imported];
+      setCustomThemes(next);
+      saveCustomThemes(next);
+      selectTheme(imported.id);
+  }, [customThemes, selectTheme]);
+
+  const exportTheme = useCallback(() => {
+      downloadBlob(themeToBlob(theme), `otman-theme-${theme.id}.json`);
+  }, [theme]);
+
+  const deleteTheme = useCallback((id: string) => {
+      const next = customThemes.filter(t => t.id !== id);
+      setCustomThemes(next);
+      saveCustomThemes(next);
+      if (activeThemeId === id) selectTheme(DEFAULT_THEME.id);
+  }, [customThemes, activeThemeId, selectTheme]);
+
+  const updateCameraSettings = useCallback((settings: CameraSettings) => {
+      setCameraSettings(settings);
+      saveCameraSettings(settings);
+  }, []);
+
+  // Device labels only show up once permission is granted, so re-list when the camera comes up
+  const isCameraReady = cameraStatus === 'ready';
+  useEffect(() => {
+      if (!navigator.mediaDevices) return;
+      const refresh = () => { listCameras().then(setCameraDevices); };
+      refresh();
+      navigator.mediaDevices.addEventListener('devicechange', refresh);
+      return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isCameraReady]);
+
+  const toggleLandmarkRecording = useCallback(() => {
+      if (landmarkRecorder.isRecording) {
+          const recording = landmarkRecorder.stop();
+          setIsRecordingLandmarks(false);
+          if (recording) downloadBlob(LandmarkRecorder.toBlob(recording), `otman-landmarks-${Date.now()}.json`);
+      } else {
+          landmarkRecorder.start();
+          setIsRecordingLandmarks(true);
+      }
+  }, [landmarkRecorder]);
+
+  const selectCalibrationProfile = useCallback((name: string | null) => {
+      setActiveProfileName(name);
+      saveActiveProfileName(name);
+  }, []);
+
+  const saveCalibrationProfile = useCallback((profile: CalibrationProfile) => {
+      // Re-calibrating under an existing name replaces that profile
+      const next = [...calibrationProfiles.filter(p => p.name !== profile.name), profile];
+      setCalibrationProfiles(next);
+      saveCalibrationProfiles(next);
+      selectCalibrationProfile(profile.name);
+      setIsCalibrating(false);
+  }, [calibrationProfiles, selectCalibrationProfile]);
+
+  const deleteCalibrationProfile = useCallback((name: string) => {
+      const next = calibrationProfiles.filter(p => p.name !== name);
+      setCalibrationProfiles(next);
+      saveCalibrationProfiles(next);
+      if (activeProfileName === name) selectCalibrationProfile(null);
+  }, [calibrationProfiles, activeProfileName, selectCalibrationProfile]);
+
+  const loadReplay = useCallback(async (file: File) => {
+      try {
+          setReplayRecording(await LandmarkRecorder.fromFile(file));
+      } catch (e) {
+          console.error("Failed to load landmark recording:", e);
+      }
   }, []);
 
+  const switchInputSource = useCallback((source: InputSource) => {
+      if (inputSourceRef.current === source) return;
+      // Update the ref immediately so the very next result is routed correctly
+      inputSourceRef.current = source;
+      setInputSource(source);
+  }, []);
+
+  // Camera results. A visible hand always reclaims control from the fallback.
+  const onHandControllerUpdate = useCallback((result: HandTrackingResult) => {
+      if (result.isPresent) {
+          lastHandSeenRef.current = performance.now();
+          switchInputSource(InputSource.HAND);
+      }
+      // Hold the scene still while the calibration wizard is collecting poses
+      if (inputSourceRef.current === InputSource.HAND && !calibrationListenerRef.current) {
+          onHandUpdateProxy(result);
+      }
+  }, [onHandUpdateProxy, switchInputSource]);
+
+  const onRawHandResults = useCallback((results: HandResults) => {
+      calibrationListenerRef.current?.(results);
+  }, []);
+
+  const onPointerUpdate = useCallback((result: HandTrackingResult) => {
+      if (inputSourceRef.current === InputSource.POINTER) {
+          onHandUpdateProxy(result);
+      }
+  }, [onHandUpdateProxy]);
+
+  // Double-tap is a touch gesture of its own, so it zooms in every state instead of going through the bindings
+  const onTouchZoom = useCallback(() => {
+      if (inputSourceRef.current === InputSource.TOUCH) {
+          runGestureAction(GestureAction.SHOW_ZOOM);
+      }
+  }, [runGestureAction]);
+
+  const onTouchActivate = useCallback(() => {
+      switchInputSource(InputSource.TOUCH);
+  }, [switchInputSource]);
+
+  const onTouchUpdate = useCallback((result: HandTrackingResult) => {
+      if (inputSourceRef.current === InputSource.TOUCH) {
+          onHandUpdateProxy(result);
+      }
+  }, [onHandUpdateProxy]);
+
+  // Fall back to pointer input when no hand has been seen for a while
+  // (camera denied, MediaPipe failed to load, or simply nobody in front of it)
+  useEffect(() => {
+      const interval = setInterval(() => {
+          if (inputSourceRef.current !== InputSource.HAND) return;
+          if (performance.now() - lastHandSeenRef.current > CONFIG.FALLBACK_DELAY_MS) {
+              switchInputSource(InputSource.POINTER);
+          }
+      }, 500);
+      return () => clearInterval(interval);
+  }, [switchInputSource]);
+
+  const handlePhotoUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const files = Array.from(e.target.files);
+    e.target.value = ''; // Picking the same file again should upload it again
+    setUploadError(null);
+    try {
+      // Fill in what the camera recorded; the name typed in the photo manager wins over EXIF's artist
+      const entries = await Promise.all(files.map(async blob => {
+        const exif: Partial<PhotoMetadata> = mediaKind(blob) === 'image' ? await readExifMetadata(blob) : {};
+        return {
+          blob,
+          metadata: { caption: exif.caption ?? '', date: exif.date ?? null, uploader: uploaderName || exif.uploader || '' }
+        };
+      }));
+      const records = await photoLibrary.addPhotos(entries);
+      setPhotos(prev => [...prev, ...records.map(photoFromRecord)]);
+    } catch (err) {
+      console.error("Failed to add photos:", err);
+      setUploadError(`Couldn't add photos: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [photoLibrary, uploaderName]);
+
   const clearPhotos = useCallback(() => {
+      photosRef.current.forEach(photo => photoTextures.discard(photo.url));
       setPhotos([]);
       setActivePhotoIndex(0);
+      photoLibrary.clear();
+  }, [photoLibrary, photoTextures]);
+
+  const updatePhoto = useCallback((id: string, changes: Partial<PhotoMetadata>) => {
+      setPhotos(prev => prev.map(photo => (photo.id === id ? { ...photo, ...changes } : photo)));
+      photoLibrary.updatePhoto(id, changes);
+  }, [photoLibrary]);
+
+  const movePhoto = useCallback((id: string, offset: -1 | 1) => {
+      const current = photosRef.current;
+      const from = current.findIndex(photo => photo.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= current.length) return;
+      const next = [...current];
+      [next[from], next[to]] = [next[to], next[from]];
+      setPhotos(next);
+      photoLibrary.reorder(next.map(photo => photo.id));
+  }, [photoLibrary]);
+
+  const replacePhoto = useCallback((id: string, file: File) => {
+      const previous = photosRef.current.find(photo => photo.id === id);
+      if (previous) photoTextures.discard(previous.url);
+      const url = URL.createObjectURL(file);
+      setPhotos(prev => prev.map(photo => (photo.id === id ? { ...photo, url, kind: mediaKind(file) } : photo)));
+      photoLibrary.updatePhoto(id, { blob: file });
+  }, [photoLibrary, photoTextures]);
+
+  const removePhoto = useCallback((id: string) => {
+      const photo = photosRef.current.find(p => p.id === id);
+      if (photo) photoTextures.discard(photo.url);
+      setPhotos(prev => prev.filter(p => p.id !== id));
+      photoLibrary.removePhoto(id);
+  }, [photoLibrary, photoTextures]);
+
+  // Keep the selection valid as photos are removed, and leave zoom once none are left
+  useEffect(() => {
+      setActivePhotoIndex(i => Math.min(i, Math.max(photos.length - 1, 0)));
+      if (photos.length === 0) setAppState(state => (state === AppState.ZOOM ? AppState.TREE : state));
+  }, [photos.length]);
+
+  const updateUploaderName = useCallback((name: string) => {
+      setUploaderName(name);
+      saveSetting(UPLOADER_NAME_SETTING_KEY, name);
   }, []);
 
   return (
-    <div className="relative w-full h-screen bg-[#1F0B12] text-white overflow-hidden select-none">
+    <div className="relative w-full h-screen bg-[#1F0B12] text-white overflow-hidden select-none touch-none">
       {/* 3D Scene */}
-      <Canvas shadows camera={{ position: [0, 0, 25], fov: 45 }} dpr={[1, 1.5]}> 
-        <color attach="background" args={[COLORS.BG_DARK]} />
-        <fog attach="fog" args={[COLORS.BG_DARK, 10, 50]} />
+      <Canvas ref={canvasRef} shadows={quality.shadows} camera={{ position: [0, 0, 25], fov: 45 }} dpr={[1, quality.maxDpr]}> 
         <Experience 
             appState={appState} 
             photos={photos} 
             handDataRef={handDataRef} 
+            treeSpinRef={treeSpinRef}
+            shape={shapeGenerator}
+            picture={pictureLayout}
+            theme={theme}
+            audio={audioAnalyser}
+            photoTextures={photoTextures}
+            photoFrame={photoFrame}
+            onVideoSoundChange={duckMusic}
+            perfStats={perfStats}
+            quality={quality}
+            qualityManager={qualityManager}
+            snapshotRef={snapshotRef}
             activePhotoIndex={activePhotoIndex}
             onPhotoSelect={setActivePhotoIndex}
         />
       </Canvas>
       <Loader />
 
-      {/* Audio Element */}
-      <audio ref={audioRef} src={musicUrl} loop crossOrigin="anonymous" />
-
       {/* Hand Controller */}
-      <HandController onUpdate={onHandUpdateProxy} />
+      <HandController
+        onUpdate={onHandControllerUpdate}
+        hidePreview={inputSource === InputSource.TOUCH}
+        twoHandMode={twoHandMode}
+        replay={replayRecording}
+        recorder={landmarkRecorder}
+        thresholds={gestureThresholds}
+        onRawResults={onRawHandResults}
+        perfStats={perfStats}
+        camera={cameraSettings}
+        onCameraStatus={setCameraStatus}
+        previewRef={cameraPreviewRef}
+      />
+
+      {showDebugOverlay && <DebugOverlay stats={perfStats} />}
+      <PointerController enabled={inputSource === InputSource.POINTER} onUpdate={onPointerUpdate} />
+      <TouchController onActivate={onTouchActivate} onUpdate={onTouchUpdate} onZoom={onTouchZoom} />
 
       {/* UI Overlay */}
       <div className="absolute top-0 left-0 w-full p-8 pointer-events-none">
@@ -161,35 +876,132 @@ const App = () => {
               Otman
             </h1>
             <p className="text-[#D14768] font-serif text-lg tracking-widest mt-2 uppercase opacity-90">
-              Winter Pink Snow Edition
+              {theme.subtitle}
             </p>
           </div>
           
           <div className="pointer-events-auto flex flex-col items-end gap-2">
              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => {
+                    setIsSettingsOpen(open => !open);
+                    setIsPhotoManagerOpen(false);
+                  }}
+                  className="w-10 h-10 rounded-full border border-[#E6B2B8]/30 bg-black/20 backdrop-blur-sm text-[#E6B2B8]
+                             hover:bg-[#E6B2B8]/20 transition-all duration-300 text-lg"
+                  title="Settings"
+                >
+                  ⚙
+                </button>
+
                 {/* Music Controls Group */}
                 <div className="flex items-center gap-1 bg-black/20 backdrop-blur-sm rounded-full p-1 border border-[#E6B2B8]/30">
+                    <button
+                      onClick={() => musicPlayer.previous()}
+                      className="w-7 h-8 rounded-full text-[#E6B2B8] hover:bg-[#E6B2B8]/20 transition-colors text-[10px]"
+                      title="Previous Track"
+                    >
+                      ⏮
+                    </button>
                     <button 
                       onClick={toggleMusic}
+                      disabled={playlist.length === 0}
                       className={`w-10 h-8 rounded-full transition-all duration-300 font-serif text-xs flex items-center justify-center
+                        disabled:opacity-40
                         ${isMusicPlaying 
                             ? 'bg-[#E6B2B8] text-[#1F0B12] shadow-[0_0_10px_rgba(230,178,184,0.4)]' 
                             : 'text-[#E6B2B8] hover:bg-[#E6B2B8]/20'
                         }`}
-                      title={isMusicPlaying ? "Pause Music" : "Play Music"}
+                      title={playlist.length === 0 ? "Upload music with the BGM button to play it" : isMusicPlaying ? "Pause Music" : "Play Music"}
                     >
                       {isMusicPlaying ? '❚❚' : '▶'}
                     </button>
+                    <button
+                      onClick={() => musicPlayer.next()}
+                      className="w-7 h-8 rounded-full text-[#E6B2B8] hover:bg-[#E6B2B8]/20 transition-colors text-[10px]"
+                      title="Next Track"
+                    >
+                      ⏭
+                    </button>
+                    <span
+                      className="hidden md:block max-w-[9rem] truncate px-2 text-[10px] font-serif tracking-wider text-[#E6B2B8]/80"
+                      title={playerState.track?.name}
+                    >
+                      {playerState.track?.name}
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={playbackSettings.volume}
+                      onChange={e => updatePlaybackSettings({ ...playbackSettings, volume: Number(e.target.value) })}
+                      className="w-16 mx-1 accent-[#E6B2B8]"
+                      title="Volume"
+                    />
                     <label className="cursor-pointer group pr-3 pl-1 border-l border-[#E6B2B8]/20 h-full flex items-center">
-                        <input type="file" className="hidden" accept="audio/*" onChange={handleMusicUpload} />
+                        <input type="file" multiple className="hidden" accept="audio/*" onChange={handleMusicUpload} />
                         <div className="text-[#E6B2B8] hover:text-white transition-colors text-[10px] font-serif uppercase tracking-wider flex items-center gap-1">
                            <span className="text-sm pb-0.5">↥</span> BGM
                         </div>
                     </label>
                 </div>
 
+                <button
+                  onClick={() => setAppState(state => state === AppState.PICTURE ? AppState.TREE : AppState.PICTURE)}
+                  className={`px-4 py-2 border border-[#E6B2B8]/50 rounded-full backdrop-blur-sm transition-all duration-300
+                              font-serif uppercase tracking-widest text-xs
+                              ${appState === AppState.PICTURE
+                                  ? 'bg-[#E6B2B8] text-[#1F0B12]'
+                                  : 'bg-black/20 text-[#E6B2B8] hover:bg-[#E6B2B8]/20'}`}
+                  title="Draw the greeting or picture with the ornaments"
+                >
+                  ✦ Picture
+                </button>
+
+                <button
+                  onClick={takeSnapshot}
+                  disabled={isTakingSnapshot}
+                  className="px-4 py-2 border border-[#E6B2B8]/50 rounded-full backdrop-blur-sm transition-all duration-300
+                             font-serif uppercase tracking-widest text-xs bg-black/20 text-[#E6B2B8] hover:bg-[#E6B2B8]/20
+                             disabled:opacity-50"
+                  title="Save a high-resolution card of the current view"
+                >
+                  ◎ Snap
+                </button>
+
+                {isRecordingSupported() && (
+                  <button
+                    onClick={toggleVideoRecording}
+                    className={`px-4 py-2 border rounded-full backdrop-blur-sm transition-all duration-300
+                                font-serif uppercase tracking-widest text-xs
+                                ${isRecordingVideo
+                                    ? 'border-[#D14768] bg-[#D14768] text-white shadow-[0_0_10px_rgba(209,71,104,0.5)]'
+                                    : 'border-[#E6B2B8]/50 bg-black/20 text-[#E6B2B8] hover:bg-[#E6B2B8]/20'}`}
+                    title={isRecordingVideo ? "Stop and download the video" : "Record the scene and music to a video"}
+                  >
+                    {isRecordingVideo
+                      ? `■ ${Math.floor(recordingSeconds / 60)}:${String(recordingSeconds % 60).padStart(2, '0')}`
+                      : '● Rec'}
+                  </button>
+                )}
+
                 {/* Photo Controls Group */}
                 <div className="flex items-center gap-2">
+                    {photos.length > 0 && (
+                        <button
+                            onClick={() => {
+                              setIsPhotoManagerOpen(open => !open);
+                              setIsSettingsOpen(false);
+                            }}
+                            className="px-4 py-2 border border-[#E6B2B8]/50 text-[#E6B2B8] rounded-full
+                                    bg-black/20 backdrop-blur-sm transition-all duration-300
+                                    hover:bg-[#E6B2B8]/20 font-serif uppercase tracking-widest text-xs"
+                            title="Captions, order and individual photos"
+                        >
+                            Manage
+                        </button>
+                    )}
                     {photos.length > 0 && (
                         <button 
                             onClick={clearPhotos}
@@ -200,7 +1012,7 @@ const App = () => {
                         </button>
                     )}
                     <label className="cursor-pointer group">
-                    <input type="file" multiple className="hidden" accept="image/*" onChange={handlePhotoUpload} />
+                    <input type="file" multiple className="hidden" accept={MEDIA_ACCEPT} onChange={handlePhotoUpload} />
                     <div className="px-6 py-2 border border-[#E6B2B8] text-[#E6B2B8] rounded-full 
                                     bg-black/20 backdrop-blur-sm transition-all duration-300 
                                     hover:bg-[#E6B2B8] hover:text-[#1F0B12] font-serif uppercase tracking-widest text-xs shadow-[0_0_15px_rgba(230,178,184,0.2)]">
@@ -212,6 +1024,18 @@ const App = () => {
             <p className="text-xs text-[#E6B2B8]/60 font-serif mt-1">
                 {photos.length} memories loaded
             </p>
+            {recordingError && (
+              <p className="text-xs text-[#D14768] font-serif max-w-xs text-right">
+                {recordingError}{' '}
+                <button onClick={() => setRecordingError(null)} className="underline opacity-80 hover:opacity-100">Dismiss</button>
+              </p>
+            )}
+            {uploadError && (
+              <p className="text-xs text-[#D14768] font-serif max-w-xs text-right">
+                {uploadError}{' '}
+                <button onClick={() => setUploadError(null)} className="underline opacity-80 hover:opacity-100">Dismiss</button>
+              </p>
+            )}
           </div>
         </header>
       </div>
@@ -222,15 +1046,44 @@ const App = () => {
            <div className="flex items-center gap-3">
               <span className={`w-3 h-3 rounded-full transition-colors duration-300 ${isHandPresent ? 'bg-green-400 shadow-[0_0_10px_#4ade80]' : 'bg-[#D14768]'}`} />
               <span className="text-xs tracking-widest uppercase opacity-70">
-                {isHandPresent ? `Hand Detected: ${currentGesture}` : 'No Hand Detected'}
+                {inputSource === InputSource.POINTER
+                  ? `Pointer Control: ${currentGesture}`
+                  : inputSource === InputSource.TOUCH
+                  ? `Touch Control: ${currentGesture}`
+                  : isHandPresent ? `Hand Detected: ${currentGesture}` : 'No Hand Detected'}
               </span>
            </div>
            
            <div className="bg-[#1F0B12]/40 backdrop-blur-md border-l-2 border-[#E6B2B8] p-4 text-sm font-light leading-relaxed mt-4 transition-opacity duration-500 shadow-lg">
              <p className="mb-2"><strong className="text-[#E6B2B8]">Move Hand:</strong> Hover to Select</p>
-             <p className="mb-2"><strong className="text-[#E6B2B8]">Two Fingers:</strong> Zoom Selection</p>
-             <p className="mb-2"><strong className="text-[#E6B2B8]">Fist:</strong> Coalesce Tree (Randomizes)</p>
-             <p><strong className="text-[#E6B2B8]">Open Hand:</strong> Scatter (Randomizes)</p>
+             {/* Hints follow the binding table for the current state */}
+             {Object.entries(gestureBindings[appState] ?? {})
+               .filter(([, action]) => action !== GestureAction.NONE)
+               .map(([gesture, action]) => (
+                 <p key={gesture} className="mb-2 last:mb-0">
+                   <strong className="text-[#E6B2B8]">{GESTURE_LABELS[gesture as HandGesture]}:</strong> {ACTION_LABELS[action as GestureAction]}
+                 </p>
+               ))}
+             {inputSource === InputSource.HAND && appState === AppState.ZOOM && (
+               <p className="mt-2"><strong className="text-[#E6B2B8]">Swipe:</strong> Browse Photos</p>
+             )}
+             {inputSource === InputSource.HAND && appState === AppState.TREE && (
+               <p className="mt-2"><strong className="text-[#E6B2B8]">Swipe / Stir:</strong> Spin Tree</p>
+             )}
+             {twoHandMode && inputSource === InputSource.HAND && (
+               <p className="mt-2 text-xs opacity-70">
+                 Two hands: open both and spread to scale, make two fists and turn to spin, point with one and close the other to zoom.
+               </p>
+             )}
+             {inputSource === InputSource.POINTER && (
+               <p className="mt-2 text-xs opacity-70">
+                 No camera? Move the mouse and hold{' '}
+                 {Object.entries(POINTER_KEY_GESTURES).map(([key, gesture]) => `${key.toUpperCase()} (${GESTURE_LABELS[gesture]})`).join(', ')}.
+               </p>
+             )}
+             {inputSource === InputSource.TOUCH && (
+               <p className="mt-2 text-xs opacity-70">Pinch in for the Tree, spread to Scatter, drag to orbit, double-tap a photo to Zoom.</p>
+             )}
            </div>
         </div>
       </div>
@@ -245,6 +1098,87 @@ const App = () => {
       )}
 
       <div className="absolute inset-0 pointer-events-none shadow-[inset_0_0_100px_rgba(0,0,0,0.5)]" />
+
+      {isPhotoManagerOpen && (
+        <PhotoManager
+          photos={photos}
+          uploaderName={uploaderName}
+          onUploaderNameChange={updateUploaderName}
+          onUpdatePhoto={updatePhoto}
+          onMovePhoto={movePhoto}
+          onReplacePhoto={replacePhoto}
+          onRemovePhoto={removePhoto}
+          onClose={() => setIsPhotoManagerOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          bindings={gestureBindings}
+          onBindingsChange={updateGestureBindings}
+          onResetBindings={resetGestureBindings}
+          twoHandMode={twoHandMode}
+          onTwoHandModeChange={updateTwoHandMode}
+          showDebugOverlay={showDebugOverlay}
+          onShowDebugOverlayChange={updateShowDebugOverlay}
+          photoFrame={photoFrame}
+          onPhotoFrameChange={updatePhotoFrame}
+          qualityPreference={qualityPreference}
+          qualityTier={qualityTier}
+          onQualityPreferenceChange={updateQualityPreference}
+          themes={themes}
+          activeThemeId={theme.id}
+          onSelectTheme={selectTheme}
+          onImportTheme={importTheme}
+          onExportTheme={exportTheme}
+          onDeleteTheme={deleteTheme}
+          audioSensitivity={audioSensitivity}
+          tracks={uploadedTracks}
+          currentTrackId={playerState.track?.id ?? null}
+          onPlayTrack={playTrack}
+          onRemoveTrack={removeTrack}
+          onClearTracks={clearTracks}
+          playbackSettings={playbackSettings}
+          recordingSettings={recordingSettings}
+          onRecordingSettingsChange={updateRecordingSettings}
+          snapshotSettings={snapshotSettings}
+          onSnapshotSettingsChange={updateSnapshotSettings}
+          onPlaybackSettingsChange={updatePlaybackSettings}
+          onAudioSensitivityChange={updateAudioSensitivity}
+          pictureText={pictureText}
+          onPictureTextChange={updatePictureText}
+          pictureImageName={pictureImage?.name ?? null}
+          onPictureImageChange={setPictureImage}
+          treeShape={treeShape}
+          onTreeShapeChange={updateTreeShape}
+          customShapePath={customShapePath}
+          onCustomShapePathChange={updateCustomShapePath}
+          cameraSettings={cameraSettings}
+          onCameraSettingsChange={updateCameraSettings}
+          cameraDevices={cameraDevices}
+          cameraStatus={cameraStatus}
+          isRecordingLandmarks={isRecordingLandmarks}
+          onToggleLandmarkRecording={toggleLandmarkRecording}
+          isReplaying={replayRecording !== null}
+          onReplayLoad={loadReplay}
+          onReplayStop={() => setReplayRecording(null)}
+          calibrationProfiles={calibrationProfiles}
+          activeProfileName={activeProfileName}
+          onSelectProfile={selectCalibrationProfile}
+          onDeleteProfile={deleteCalibrationProfile}
+          onStartCalibration={() => setIsCalibrating(true)}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isCalibrating && (
+        <CalibrationWizard
+          rawResultsListenerRef={calibrationListenerRef}
+          existingNames={calibrationProfiles.map(p => p.name)}
+          onSave={saveCalibrationProfile}
+          onClose={() => setIsCalibrating(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HandTrackingService } from '../services/handTrackingService';
+import { CalibrationFrame, CalibrationSamples, fitThresholds } from '../services/gestureCalibration';
+import { CalibrationProfile, HandGesture, HandResults } from '../types';
+import { GESTURE_LABELS } from '../constants';
+
+interface Props {
+  // The wizard installs its own listener here to receive raw camera frames
+  rawResultsListenerRef: React.MutableRefObject<((results: HandResults) => void) | null>;
+  existingNames: string[];
+  onSave: (profile: CalibrationProfile) => void;
+  onClose: () => void;
+}
+
+const HOLD_MS = 3000;
+// The hand is still moving out of the previous pose at first; sampling starts after this
+const SETTLE_MS = 700;
+
+const POSES: { pose: HandGesture; key: keyof CalibrationSamples; hint: string }[] = [
+  { pose: HandGesture.OPEN_PALM, key: 'openPalm', hint: 'Spread all fingers wide, palm facing the camera.' },
+  { pose: HandGesture.FIST, key: 'fist', hint: 'Close your hand into a relaxed fist.' },
+  { pose: HandGesture.PINCH, key: 'pinch', hint: 'Touch your thumb and index fingertips together.' },
+];
+
+const CalibrationWizard: React.FC<Props> = ({ rawResultsListenerRef, existingNames, onSave, onClose }) => {
+  // -1 = intro, POSES.length = finished
+  const [step, setStep] = useState(-1);
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [name, setName] = useState(() => {
+    let n = existingNames.length + 1;
+    while (existingNames.includes(`Profile ${n}`)) n++;
+    return `Profile ${n}`;
+  });
+
+  const samplesRef = useRef<CalibrationSamples>({ openPalm: [], fist: [], pinch: [] });
+  const framesRef = useRef<CalibrationFrame[]>([]);
+  const heldMsRef = useRef(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const handVisibleRef = useRef(false);
+
+  // Collect measurements for the current pose, counting only time the hand is actually visible
+  useEffect(() => {
+    if (step < 0 || step >= POSES.length) {
+      rawResultsListenerRef.current = null;
+      return;
+    }
+    const { pose, key } = POSES[step];
+    heldMsRef.current = 0;
+    lastFrameTimeRef.current = null;
+
+    rawResultsListenerRef.current = (results) => {
+      const landmarks = results.multiHandLandmarks?.[0];
+      const now = performance.now();
+      handVisibleRef.current = !!landmarks;
+
+      if (landmarks) {
+        if (heldMsRef.current >= SETTLE_MS) {
+          samplesRef.current[key].push(HandTrackingService.measureHand(landmarks));
+          framesRef.current.push({ pose, landmarks });
+        }
+        if (lastFrameTimeRef.current !== null) heldMsRef.current += now - lastFrameTimeRef.current;
+        lastFrameTimeRef.current = now;
+      } else {
+        lastFrameTimeRef.current = null;
+      }
+    };
+
+    // Frames arrive outside React; poll them into the progress bar
+    const interval = setInterval(() => {
+      setHandVisible(handVisibleRef.current);
+      setProgress(Math.min(heldMsRef.current / (SETTLE_MS + HOLD_MS), 1));
+      if (heldMsRef.current >= SETTLE_MS + HOLD_MS) {
+        heldMsRef.current = 0; // Don't advance twice before the effect re-runs
+        setStep(s => s + 1);
+      }
+    }, 100);
+
+    return () => {
+      clearInterval(interval);
+      rawResultsListenerRef.current = null;
+    };
+  }, [step, rawResultsListenerRef]);
+
+  const restart = () => {
+    samplesRef.current = { openPalm: [], fist: [], pinch: [] };
+    framesRef.current = [];
+    setProgress(0);
+    setStep(0);
+  };
+
+  const current = step >= 0 && step < POSES.length ? POSES[step] : null;
+  const isDone = step >= POSES.length;
+  // Null when the open hand and the fist couldn't be told apart
+  const thresholds = useMemo(
+    () => (isDone ? fitThresholds(samplesRef.current, framesRef.current) : null),
+    [isDone]
+  );
+
+  const save = () => {
+    if (!thresholds) return;
+    onSave({
+      name: name.trim() || 'Profile',
+      thresholds,
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center pointer-events-auto bg-black/50 backdrop-blur-sm">
+      <div className="w-full max-w-md bg-[#1F0B12]/90 border border-[#E6B2B8]/30 rounded-xl p-6 shadow-lg">
+        <h2 className="text-2xl text-[#E6B2B8] font-serif tracking-widest mb-4">Calibrate Gestures</h2>
+
+        {step === -1 && (
+          <>
+            <p className="text-sm font-light leading-relaxed mb-6">
+              Hold each pose in front of the camera for a few seconds. Your hand's measurements are saved
+              as a profile, so children, gloved hands or people standing far away are recognized reliably.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-2 text-xs uppercase tracking-widest text-[#E6B2B8]/70 hover:text-white">
+                Cancel
+              </button>
+              <button onClick={restart} className="px-6 py-2 border border-[#E6B2B8] text-[#E6B2B8] rounded-full font-serif uppercase tracking-widest text-xs hover:bg-[#E6B2B8] hover:text-[#1F0B12] transition-all duration-300">
+                Start
+              </button>
+            </div>
+          </>
+        )}
+
+        {current && (
+          <>
+            <p className="text-xs uppercase tracking-widest text-[#E6B2B8]/70 mb-1">Step {step + 1} of {POSES.length}</p>
+            <p className="text-xl font-serif mb-2">{GESTURE_LABELS[current.pose]}</p>
+            <p className="text-sm font-light mb-4">{current.hint}</p>
+            <div className="h-2 rounded-full bg-black/40 overflow-hidden mb-2">
+              <div className="h-full bg-[#E6B2B8] transition-all duration-100" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <p className={`text-xs ${handVisible ? 'text-green-400' : 'text-[#D14768]'}`}>
+              {handVisible ? 'Hold still...' : 'Show your hand to the camera'}
+            </p>
+            <div className="flex justify-end mt-4">
+              <button onClick={onClose} className="px-4 py-2 text-xs uppercase tracking-widest text-[#E6B2B8]/70 hover:text-white">
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+
+        {isDone && !thresholds && (
+          <>
+            <p className="text-sm font-light mb-6 text-[#D14768]">
+              Your open hand and fist measured too alike to tell apart. Try again with your fingers
+              spread wide, then fully closed, and your hand clearly in view.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button onClick={onClose} className="px-4 py-2 text-xs uppercase tracking-widest text-[#E6B2B8]/70 hover:text-white">
+                Cancel
+              </button>
+              <button onClick={restart} className="px-6 py-2 border border-[#E6B2B8] text-[#E6B2B8] rounded-full font-serif uppercase tracking-widest text-xs hover:bg-[#E6B2B8] hover:text-[#1F0B12] transition-all duration-300">
+                Retry
+              </button>
+            </div>
+          </>
+        )}
+
+        {isDone && thresholds && (
+          <>
+            <p className="text-sm font-light mb-4">All poses captured. Name this profile to save it.</p>
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-3 py-2 mb-6 text-white"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={restart} className="px-4 py-2 text-xs uppercase tracking-widest text-[#E6B2B8]/70 hover:text-white">
+                Redo
+              </button>
+              <button onClick={save} className="px-6 py-2 border border-[#E6B2B8] text-[#E6B2B8] rounded-full font-serif uppercase tracking-widest text-xs hover:bg-[#E6B2B8] hover:text-[#1F0B12] transition-all duration-300">
+                Save Profile
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
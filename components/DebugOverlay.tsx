@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { PerformanceStats } from '../types';
+
+interface Props {
+  stats: PerformanceStats;
+}
+
+// Stats are mutated from the render loop and tracking callbacks; sample them a couple of times a second
+const REFRESH_MS = 500;
+
+const DebugOverlay: React.FC<Props> = ({ stats }) => {
+  const [snapshot, setSnapshot] = useState<PerformanceStats>({ ...stats });
+
+  useEffect(() => {
+    const interval = setInterval(() => setSnapshot({ ...stats }), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [stats]);
+
+  return (
+    <div className="absolute top-36 left-8 pointer-events-none font-mono text-[11px] leading-relaxed
+                    bg-black/60 border border-[#E6B2B8]/30 rounded px-3 py-2 text-[#E6B2B8]">
+      <div>render   {snapshot.renderFps.toFixed(0)} fps</div>
+      <div>hands    {snapshot.inferenceFps.toFixed(0)} fps ({snapshot.inferenceMode})</div>
+      <div>latency  {snapshot.inferenceLatencyMs.toFixed(0)} ms</div>
+      <div>interval {snapshot.inferenceIntervalMs.toFixed(0)} ms</div>
+      <div>quality  {snapshot.qualityTier} ({snapshot.qualityAuto ? 'auto' : 'manual'})</div>
+      <div>photos   {(snapshot.photoTextureBytes / (1024 * 1024)).toFixed(0)} MB</div>
+    </div>
+  );
+};
+
+export default DebugOverlay;
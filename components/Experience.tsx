@@ -1,45 +1,160 @@
-import React, { useMemo, useRef, useEffect, useState } from 'react';
-import { useFrame } from '@react-three/fiber';
-import { Environment, Image as DreiImage } from '@react-three/drei';
-import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
+import React, { useMemo, useRef, useEffect, useLayoutEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import { EffectComposer, Vignette } from '@react-three/postprocessing';
+import { BloomEffect, EffectComposer as EffectComposerImpl } from 'postprocessing';
 import * as THREE from 'three';
-import { AppState, ParticleData, HandTrackingResult } from '../types';
-import { CONFIG, COLORS } from '../constants';
+import {
+  AppState,
+  AudioLevels,
+  HandTrackingResult,
+  ParticleData,
+  PerformanceStats,
+  Photo,
+  PhotoFrameStyle,
+  PictureLayout,
+  QualityProfile,
+  ShapeGenerator,
+  Theme,
+  TwoHandGesture
+} from '../types';
+import { CONFIG, ENVIRONMENT_MAP_URL } from '../constants';
+import { LiveMaterial, LiveTheme } from '../services/liveTheme';
+import { AudioAnalyser } from '../services/audioAnalyser';
+import { QualityManager } from '../services/qualityManager';
+import { PhotoTextureCache, PhotoTextureDetail } from '../services/photoTextureCache';
+import { POLAROID_STRIP, createFrameGeometry, createStripTexture, photoLayout } from '../services/photoFrames';
+import {
+  ORNAMENT_ATTRIBUTES,
+  OrnamentAttribute,
+  OrnamentMaterial,
+  createOrnamentMaterial,
+  currentOrnamentPosition
+} from '../services/ornamentMaterial';
 
 interface ExperienceProps {
   appState: AppState;
-  photos: string[];
+  photos: Photo[];
   handDataRef: React.MutableRefObject<HandTrackingResult>;
+  treeSpinRef: React.MutableRefObject<number>; // Spin velocity impulse (rad/s) added by motion gestures
+  shape: ShapeGenerator; // Figure the particles gather into in TREE
+  picture: PictureLayout | null; // Positions and tints for PICTURE
+  theme: Theme; // Changes animate in place
+  audio: AudioAnalyser; // Sampled every frame; drives pulses, lights and bloom while music plays
+  photoTextures: PhotoTextureCache;
+  photoFrame: PhotoFrameStyle;
+  onVideoSoundChange?: (playing: boolean) => void; // A zoomed video clip started or stopped playing with sound
+  perfStats?: PerformanceStats; // Render FPS is written here for hand tracking and the debug overlay
+  quality: QualityProfile; // Current rendering tier
+  qualityManager?: QualityManager; // Fed frame times to pick the tier automatically
+  snapshotRef?: React.MutableRefObject<((width: number) => HTMLCanvasElement | null) | null>; // Filled with a high-res capture function
   activePhotoIndex: number;
   onPhotoSelect: (index: number) => void;
 }
 
-// Reusable geometries and materials
-const sphereGeo = new THREE.SphereGeometry(1, 16, 16);
+// Reusable geometries and materials.
+// Material parameters and color are driven by the theme every frame; the shader blends in picture colors
+const PICTURE_SCALE = 0.22; // Uniform ornament size in PICTURE so the image reads cleanly
+const PICTURE_EMISSIVE_FACTOR = 0.2; // Tone down the glow so sampled colors aren't washed out
+// Audio reactivity: extra ornament scale at full level, and how much the picture keeps of it
+const BEAT_PULSE = 0.35;
+const BAND_PULSE = 0.25;
+const PICTURE_PULSE_FACTOR = 0.3;
 const cubeGeo = new THREE.BoxGeometry(1, 1, 1);
-const cylinderGeo = new THREE.CylinderGeometry(0.2, 0.2, 2, 8);
-
-const goldMat = new THREE.MeshStandardMaterial({
-  color: COLORS.GOLD,
-  metalness: 0.8,
-  roughness: 0.2,
-  emissive: COLORS.GOLD,
-  emissiveIntensity: 0.3
-});
-const redMat = new THREE.MeshStandardMaterial({
-  color: COLORS.RED,
-  metalness: 0.3,
-  roughness: 0.4,
-  emissive: COLORS.RED,
-  emissiveIntensity: 0.2
-});
-const snowMat = new THREE.MeshStandardMaterial({
-  color: COLORS.MATTE_GREEN, 
-  metalness: 0.1,
-  roughness: 0.1,
-  emissive: '#FFFFFF',
-  emissiveIntensity: 0.1
-});
+// One per detail level, built the first time a quality tier asks for it
+const sphereGeos = new Map<number, THREE.SphereGeometry>();
+const cylinderGeos = new Map<number, THREE.CylinderGeometry>();
+const sphereGeometry = (segments: number) => {
+  if (!sphereGeos.has(segments)) sphereGeos.set(segments, new THREE.SphereGeometry(1, segments, segments));
+  return sphereGeos.get(segments)!;
+};
+const cylinderGeometry = (segments: number) => {
+  if (!cylinderGeos.has(segments)) cylinderGeos.set(segments, new THREE.CylinderGeometry(0.2, 0.2, 2, segments));
+  return cylinderGeos.get(segments)!;
+};
+
+const sphereMat = createOrnamentMaterial();
+const cubeMat = createOrnamentMaterial();
+const cylinderMat = createOrnamentMaterial();
+
+// Caption card under a zoomed photo; the gap is in photo units
+const CAPTION_TEXTURE_WIDTH = 1024;
+const CAPTION_GAP = 0.06;
+// Share of the viewport a zoomed photo, frame and caption may take up
+const ZOOM_FILL = 0.8;
+
+const formatPhotoDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  // Built from parts so the day doesn't shift with the local timezone
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// Splits text into lines no wider than maxWidth, ellipsizing after maxLines
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] += '…';
+  }
+  return lines;
+}
+
+/**
+ * Renders a photo's caption, date and uploader onto a texture; null when there is nothing to show.
+ * The caption itself can be left out when the frame already shows it.
+ */
+function createCaptionTexture(
+  photo: Photo | undefined,
+  includeCaption: boolean
+): { texture: THREE.CanvasTexture; height: number } | null {
+  if (!photo) return null;
+  const details = [photo.date ? formatPhotoDate(photo.date) : '', photo.uploader ? `by ${photo.uploader}` : '']
+    .filter(Boolean)
+    .join('  ·  ');
+  const text = includeCaption ? photo.caption.trim() : '';
+  if (!text && !details) return null;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const width = CAPTION_TEXTURE_WIDTH;
+  const captionFont = '700 64px Cinzel, serif';
+  const detailFont = '36px Lato, sans-serif';
+  ctx.font = captionFont;
+  const lines = wrapText(ctx, text, width * 0.92, 2);
+  const height = 24 + lines.length * 78 + (details ? 52 : 0) + 16;
+
+  canvas.width = width;
+  canvas.height = height;
+  ctx.fillStyle = 'rgba(20, 6, 12, 0.7)';
+  ctx.fillRect(0, 0, width, height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.font = captionFont;
+  ctx.fillStyle = '#FFFFFF';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, 24 + i * 78));
+  if (details) {
+    ctx.font = detailFont;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+    ctx.fillText(details, width / 2, 24 + lines.length * 78 + 8);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { texture, height: height / width };
+}
 
 // Helper to shuffle array
 function shuffle<T>(array: T[]): T[] {
@@ -51,102 +166,108 @@ function shuffle<T>(array: T[]): T[] {
     return arr;
 }
 
-// Optimized Instanced Component
+// Instanced ornaments, animated entirely in the vertex shader. The CPU only eases a handful of
+// uniforms per frame, and rewrites attributes when the particles or their layouts change
 const InstancedOrnaments = ({ 
   data, 
   geometry, 
   material, 
+  look,
+  levels,
+  band,
   appState 
 }: { 
   data: ParticleData[], 
   geometry: THREE.BufferGeometry, 
-  material: THREE.Material, 
+  material: OrnamentMaterial, 
+  look: LiveMaterial, // Theme-driven tint and material parameters
+  levels: AudioLevels,
+  band: 'bass' | 'mid' | 'treble', // Frequency band this kind of ornament pulses to, on top of the beat
   appState: AppState 
 }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  const buffer = useRef<Float32Array | null>(null);
-
-  useEffect(() => {
-    if (data.length > 0) {
-       buffer.current = new Float32Array(data.length * 4); 
-       data.forEach((d, i) => {
-         buffer.current![i*4] = d.initialPos[0];
-         buffer.current![i*4+1] = d.initialPos[1];
-         buffer.current![i*4+2] = d.initialPos[2];
-         buffer.current![i*4+3] = 0.01; 
-         
-         dummy.position.set(d.initialPos[0], d.initialPos[1], d.initialPos[2]);
-         dummy.scale.setScalar(0.01);
-         dummy.updateMatrix();
-         if (meshRef.current) meshRef.current.setMatrixAt(i, dummy.matrix);
-       });
-       if (meshRef.current) meshRef.current.instanceMatrix.needsUpdate = true;
+  const arraysRef = useRef<Record<OrnamentAttribute, Float32Array> | null>(null);
+  const tmpVec = useMemo(() => new THREE.Vector3(), []);
+  const tmpColor = useMemo(() => new THREE.Color(), []);
+  const { uniforms } = material;
+
+  // Own copy of the shared geometry, since the instanced attributes differ per mesh
+  const instancedGeometry = useMemo(() => geometry.clone(), [geometry]);
+  useEffect(() => () => instancedGeometry.dispose(), [instancedGeometry]);
+
+  // Before paint, so a freshly cloned geometry never renders a frame without its attributes
+  useLayoutEffect(() => {
+    const count = data.length;
+    const previous = arraysRef.current;
+    const previousCount = previous?.aScale.length ?? 0;
+
+    const arrays = {} as Record<OrnamentAttribute, Float32Array>;
+    for (const [name, size] of Object.entries(ORNAMENT_ATTRIBUTES) as [OrnamentAttribute, number][]) {
+      arrays[name] = new Float32Array(count * size);
     }
-  }, [data, dummy]);
-
-  useFrame((state, delta) => {
-    if (!meshRef.current || !buffer.current) return;
 
-    const time = state.clock.elapsedTime;
-    const isTree = appState === AppState.TREE;
-    const lerpSpeed = isTree ? 3 * delta : 2 * delta; 
-
-    let needsUpdate = false;
-
-    for (let i = 0; i < data.length; i++) {
-        const d = data[i];
-        const idx = i * 4;
-
-        // Calculate Target based on AppState
-        let tx, ty, tz;
-        if (appState === AppState.SCATTER || appState === AppState.ZOOM) {
-            tx = d.scatterPos[0] + Math.cos(time * 0.5 + d.id) * 0.2;
-            ty = d.scatterPos[1] + Math.sin(time + d.id) * 0.5;
-            tz = d.scatterPos[2];
-        } else {
-            tx = d.treePos[0];
-            ty = d.treePos[1];
-            tz = d.treePos[2];
-        }
+    data.forEach((d, i) => {
+      // Particles already on screen (with new targets, e.g. a shape or quality change) morph on
+      // from where they are now. New ones start from their initial positions
+      const origin = i < previousCount
+        ? currentOrnamentPosition(uniforms, previous!, i, tmpVec)
+        : tmpVec.set(...d.initialPos);
+      arrays.aOrigin.set([origin.x, origin.y, origin.z], i * 3);
+      arrays.aTreePos.set(d.treePos, i * 3);
+      arrays.aScatterPos.set(d.scatterPos, i * 3);
+      arrays.aPicturePos.set(d.picturePos, i * 3);
+      if (d.pictureColor) {
+        tmpColor.set(d.pictureColor);
+        arrays.aPictureColor.set([tmpColor.r, tmpColor.g, tmpColor.b, 1], i * 4);
+      }
+      arrays.aScale[i] = d.scale;
+      arrays.aSpin.set([d.rotationSpeed[0], d.rotationSpeed[1]], i * 2);
+      arrays.aSeed[i] = d.id;
+    });
 
-        const cx = buffer.current[idx];
-        const cy = buffer.current[idx+1];
-        const cz = buffer.current[idx+2];
-        
-        const nx = THREE.MathUtils.lerp(cx, tx, lerpSpeed);
-        const ny = THREE.MathUtils.lerp(cy, ty, lerpSpeed);
-        const nz = THREE.MathUtils.lerp(cz, tz, lerpSpeed);
-
-        buffer.current[idx] = nx;
-        buffer.current[idx+1] = ny;
-        buffer.current[idx+2] = nz;
-
-        const targetScaleVal = appState === AppState.ZOOM ? 0.5 : 1.0;
-        const targetScale = d.scale * targetScaleVal;
-        const currentScale = buffer.current[idx+3];
-        const newScale = THREE.MathUtils.lerp(currentScale, targetScale, delta * 3);
-        buffer.current[idx+3] = newScale;
-
-        dummy.position.set(nx, ny, nz);
-        dummy.rotation.x = d.rotationSpeed[0] * time;
-        dummy.rotation.y = d.rotationSpeed[1] * time;
-        dummy.scale.setScalar(newScale);
-        
-        dummy.updateMatrix();
-        meshRef.current.setMatrixAt(i, dummy.matrix);
-        needsUpdate = true;
+    for (const [name, size] of Object.entries(ORNAMENT_ATTRIBUTES) as [OrnamentAttribute, number][]) {
+      instancedGeometry.setAttribute(name, new THREE.InstancedBufferAttribute(arrays[name], size));
     }
+    arraysRef.current = arrays;
+    uniforms.uOriginWeight.value = 1;
+    if (previousCount === 0) uniforms.uScaleIn.value = 0.01;
+  }, [data, instancedGeometry, uniforms, tmpVec, tmpColor]);
 
-    if (needsUpdate) {
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    }
+  useFrame((state, delta) => {
+    const isTree = appState === AppState.TREE;
+    const isPicture = appState === AppState.PICTURE;
+    const isScattered = appState === AppState.SCATTER || appState === AppState.ZOOM;
+    const moveRate = Math.min((isTree ? 3 : 2) * delta, 1);
+    const scaleRate = Math.min(3 * delta, 1);
+    const colorRate = Math.min(2 * delta, 1);
+
+    uniforms.uTime.value = state.clock.elapsedTime;
+    const weights = uniforms.uWeights.value;
+    weights.x += ((isTree ? 1 : 0) - weights.x) * moveRate;
+    weights.y += ((isScattered ? 1 : 0) - weights.y) * moveRate;
+    weights.z += ((isPicture ? 1 : 0) - weights.z) * moveRate;
+    uniforms.uOriginWeight.value *= 1 - moveRate;
+    uniforms.uZoomScale.value += ((appState === AppState.ZOOM ? 0.5 : 1) - uniforms.uZoomScale.value) * scaleRate;
+    uniforms.uPictureScale.value = PICTURE_SCALE;
+    uniforms.uScaleIn.value += (1 - uniforms.uScaleIn.value) * scaleRate;
+    uniforms.uPulse.value = 1 + (levels.beat * BEAT_PULSE + levels[band] * BAND_PULSE)
+        * (isPicture ? PICTURE_PULSE_FACTOR : 1);
+
+    // Fade between the theme's tint and each ornament's picture pixel
+    const blend = uniforms.uColorBlend;
+    blend.value += ((isPicture ? 1 : 0) - blend.value) * colorRate;
+
+    const mat = material.material;
+    mat.color.copy(look.color);
+    mat.metalness = look.metalness;
+    mat.roughness = look.roughness;
+    mat.emissive.copy(look.emissive);
+    mat.emissiveIntensity = look.emissiveIntensity
+        * THREE.MathUtils.lerp(1, PICTURE_EMISSIVE_FACTOR, blend.value);
   });
 
   return (
     <instancedMesh 
-      ref={meshRef} 
-      args={[geometry, material, data.length]} 
+      args={[instancedGeometry, material.material, data.length]} 
       castShadow={false} 
       receiveShadow
       frustumCulled={false} 
@@ -154,14 +275,231 @@ const InstancedOrnaments = ({
   );
 };
 
-// Component for individual photo with frame
-const PhotoDisplay = React.memo(({ data, appState, isSelected }: { data: ParticleData, appState: AppState, isSelected: boolean }) => {
+// Texture for a photo at the given detail; null while it decodes. Released again on unmount
+function usePhotoTexture(cache: PhotoTextureCache, url: string | undefined, detail: PhotoTextureDetail | null) {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+  useEffect(() => {
+    if (!url || !detail) return;
+    let cancelled = false;
+    cache.acquire(url, detail).then(loaded => {
+      if (!cancelled) setTexture(loaded);
+    });
+    return () => {
+      cancelled = true;
+      setTexture(null);
+      cache.release(url, detail);
+    };
+  }, [cache, url, detail]);
+
+  return texture;
+}
+
+type VideoPlayback = 'poster' | 'muted' | 'sound';
+
+// Longest edge of a clip's texture outside of zoom, as for photo thumbnails
+const VIDEO_THUMBNAIL_SIZE = 256;
+
+/**
+ * Texture for a video clip; null until its first frame is decoded. 'poster' holds a still frame,
+ * 'muted' loops silently, 'sound' restarts it with sound and reports through onSound while it plays.
+ * Like photos, a clip only uploads full-size frames while it has sound (that is, while zoomed);
+ * otherwise its frames are copied into a small canvas so a tree full of clips stays cheap.
+ */
+function useVideoTexture(url: string | undefined, playback: VideoPlayback, onSound?: (playing: boolean) => void) {
+  const [video, setVideo] = useState<{
+    element: HTMLVideoElement;
+    thumbnail: THREE.CanvasTexture;
+    drawThumbnail: () => void;
+  } | null>(null);
+  const [full, setFull] = useState<THREE.VideoTexture | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const element = document.createElement('video');
+    element.src = url;
+    element.muted = true;
+    element.loop = true;
+    element.playsInline = true;
+    element.preload = 'auto';
+
+    let thumbnail: THREE.CanvasTexture | null = null;
+    const onLoaded = () => {
+      const scale = Math.min(1, VIDEO_THUMBNAIL_SIZE / Math.max(element.videoWidth, element.videoHeight, 1));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(element.videoWidth * scale));
+      canvas.height = Math.max(1, Math.round(element.videoHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const texture = new THREE.CanvasTexture(canvas);
+      texture.colorSpace = THREE.SRGBColorSpace;
+      const drawThumbnail = () => {
+        ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+        texture.needsUpdate = true;
+      };
+      drawThumbnail();
+      thumbnail = texture;
+      setVideo({ element, thumbnail: texture, drawThumbnail });
+    };
+    element.addEventListener('loadeddata', onLoaded, { once: true });
+
+    return () => {
+      element.removeEventListener('loadeddata', onLoaded);
+      element.pause();
+      element.removeAttribute('src');
+      element.load(); // Drops the decoder and buffered data
+      thumbnail?.dispose();
+      setVideo(null);
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!video) return;
+    const { element, drawThumbnail } = video;
+
+    if (playback === 'poster') {
+      element.pause();
+      element.muted = true;
+      // Paused videos don't produce frames, so copy the poster once the seek lands.
+      // The very first frame is often black; a moment in makes a better poster
+      element.addEventListener('seeked', drawThumbnail, { once: true });
+      element.currentTime = Math.min(1, (element.duration || 0) / 4);
+      return () => element.removeEventListener('seeked', drawThumbnail);
+    }
+
+    let cancelled = false;
+    let audible = false;
+    const withSound = playback === 'sound';
+    let fullTexture: THREE.VideoTexture | null = null;
+    let frameRequest = 0;
+    if (withSound) {
+      element.currentTime = 0;
+      fullTexture = new THREE.VideoTexture(element);
+      fullTexture.colorSpace = THREE.SRGBColorSpace;
+      setFull(fullTexture);
+    } else {
+      // Copy each decoded frame into the thumbnail, falling back to the display refresh
+      const copyFrame = () => {
+        if (cancelled) return;
+        drawThumbnail();
+        frameRequest = 'requestVideoFrameCallback' in element
+          ? element.requestVideoFrameCallback(copyFrame)
+          : requestAnimationFrame(copyFrame);
+      };
+      copyFrame();
+    }
+    element.muted = !withSound;
+    element.play()
+      .then(() => {
+        if (cancelled || element.muted) return;
+        audible = true;
+        onSound?.(true);
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.warn("Failed to play video ornament:", e);
+        // Sound needs a recent user gesture; without one, play silently rather than not at all
+        if (withSound) {
+          element.muted = true;
+          element.play().catch(() => undefined);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (audible) onSound?.(false);
+      element.muted = true;
+      if ('cancelVideoFrameCallback' in element) element.cancelVideoFrameCallback(frameRequest);
+      else cancelAnimationFrame(frameRequest);
+      if (fullTexture) {
+        fullTexture.dispose();
+        setFull(null);
+      }
+    };
+  }, [video, playback, onSound]);
+
+  return full ?? video?.thumbnail ?? null;
+}
+
+const textureAspect = (texture: THREE.Texture) => {
+  const image = texture.image as ImageBitmap | HTMLCanvasElement | HTMLVideoElement;
+  return image instanceof HTMLVideoElement ? image.videoWidth / image.videoHeight : image.width / image.height;
+};
+
+// Crop to a square from the middle, like object-fit: cover. Without crop the whole image shows
+function cropTexture(texture: THREE.Texture, crop: boolean) {
+  const aspect = textureAspect(texture);
+  texture.repeat.set(crop ? Math.min(1, 1 / aspect) : 1, crop ? Math.min(1, aspect) : 1);
+  texture.offset.set((1 - texture.repeat.x) / 2, (1 - texture.repeat.y) / 2);
+}
+
+// Component for individual photo (or video clip) with frame
+const PhotoDisplay = React.memo(({
+  data,
+  appState,
+  isSelected,
+  faceForward,
+  frameColor,
+  frameStyle,
+  textures,
+  videoPlayback,
+  onVideoSound
+}: {
+  data: ParticleData,
+  appState: AppState,
+  isSelected: boolean,
+  faceForward: boolean,
+  frameColor: THREE.Color, // Live theme color, copied every frame
+  frameStyle: PhotoFrameStyle,
+  textures: PhotoTextureCache,
+  videoPlayback: boolean, // Let clips play outside of zoom; otherwise they show a poster frame
+  onVideoSound?: (playing: boolean) => void
+}) => {
   const meshRef = useRef<THREE.Group>(null);
   const borderRef = useRef<THREE.Mesh>(null);
+  const captionRef = useRef<THREE.Mesh>(null);
+
+  // The thumbnail is always there; the full-size texture only while this photo is zoomed.
+  // Video clips play into a video texture instead, with sound only when zoomed
+  const isZoomed = appState === AppState.ZOOM && isSelected;
+  const imageUrl = data.photo?.kind === 'video' ? undefined : data.photoUrl;
+  const videoUrl = data.photo?.kind === 'video' ? data.photoUrl : undefined;
+  const thumbnail = usePhotoTexture(textures, imageUrl, 'thumbnail');
+  const full = usePhotoTexture(textures, imageUrl, isZoomed ? 'full' : null);
+  const video = useVideoTexture(videoUrl, isZoomed ? 'sound' : videoPlayback ? 'muted' : 'poster', onVideoSound);
+  const texture = video ?? full ?? thumbnail;
+
+  // Picture and frame follow the image's own proportions; square until the first texture arrives
+  const base = video ?? thumbnail;
+  const aspect = base ? textureAspect(base) : 1;
+  const layout = useMemo(() => photoLayout(frameStyle, aspect), [frameStyle, aspect]);
+  const frameGeometry = useMemo(() => createFrameGeometry(frameStyle, layout), [frameStyle, layout]);
+  useEffect(() => () => frameGeometry.dispose(), [frameGeometry]);
+  useEffect(() => {
+    if (texture) cropTexture(texture, layout.round);
+  }, [texture, layout]);
+
+  // A polaroid carries its caption on the strip, so the zoom card only adds date and uploader
+  const isPolaroid = frameStyle === 'polaroid';
+  const caption = useMemo(() => createCaptionTexture(data.photo, !isPolaroid), [data.photo, isPolaroid]);
+  useEffect(() => () => caption?.texture.dispose(), [caption]);
+  const strip = useMemo(() => (isPolaroid ? createStripTexture(data.photo?.caption ?? '') : null), [data.photo, isPolaroid]);
+  useEffect(() => () => strip?.texture.dispose(), [strip]);
+  const stripWidth = strip ? Math.min(layout.photoWidth, POLAROID_STRIP * 0.6 * strip.aspect) : 0;
+
+  // The zoom caption spans the frame, just below it
+  const frameBottom = layout.frameCenterY - layout.frameHeight / 2;
+  const captionHeight = caption ? caption.height * layout.frameWidth : 0;
+  // Farthest the frame (and caption, when zoomed) reaches from the picture's center, for fitting the zoom
+  const zoomExtent = Math.max(
+    layout.frameCenterY + layout.frameHeight / 2,
+    -frameBottom + (caption ? CAPTION_GAP + captionHeight : 0)
+  );
   
   const targetPosRef = useRef(new THREE.Vector3(...data.treePos));
   const scatterPosRef = useRef(new THREE.Vector3(...data.scatterPos));
   const treePosRef = useRef(new THREE.Vector3(...data.treePos));
+  const parentScaleRef = useRef(new THREE.Vector3());
 
   useEffect(() => {
       scatterPosRef.current.set(...data.scatterPos);
@@ -177,6 +515,8 @@ const PhotoDisplay = React.memo(({ data, appState, isSelected }: { data: Particl
 
     if (borderRef.current) {
         const mat = borderRef.current.material as THREE.MeshStandardMaterial;
+        if (!isPolaroid) mat.color.copy(frameColor); // Polaroids stay paper white and only glow in the theme color
+        mat.emissive.copy(frameColor);
         const targetEmissive = isSelected ? 1 : 0;
         mat.emissiveIntensity = THREE.MathUtils.lerp(mat.emissiveIntensity, targetEmissive, delta * 10);
     }
@@ -194,10 +534,19 @@ const PhotoDisplay = React.memo(({ data, appState, isSelected }: { data: Particl
          targetRot = new THREE.Euler(0, time * 0.1, 0);
       }
 
-    } else if (appState === AppState.ZOOM) {
-      if (isSelected) {
+    } else if (appState === AppState.ZOOM || appState === AppState.PICTURE) {
+      // Photos make way for the picture the same way unselected ones do in zoom
+      if (isSelected && appState === AppState.ZOOM) {
+        // Zoom target is in world space; undo any two-hand scale/spin applied to the parent.
+        // Sized so the whole frame fits the view in either orientation
         targetPos.set(0, 0, 8); 
-        targetScale = 6;
+        const view = state.viewport.getCurrentViewport(state.camera, targetPos);
+        targetScale = ZOOM_FILL * Math.min(view.width / layout.frameWidth, view.height / (zoomExtent * 2));
+        const parent = meshRef.current.parent;
+        if (parent) {
+          parent.worldToLocal(targetPos);
+          targetScale /= parent.getWorldScale(parentScaleRef.current).x;
+        }
         targetRot = new THREE.Euler(0, 0, 0); 
       } else {
         targetPos.copy(scatterPosRef.current);
@@ -205,13 +554,13 @@ const PhotoDisplay = React.memo(({ data, appState, isSelected }: { data: Particl
         targetScale = 0.5;
       }
     } else if (appState === AppState.TREE) {
-        const angle = Math.atan2(targetPos.x, targetPos.z);
+        const angle = faceForward ? 0 : Math.atan2(targetPos.x, targetPos.z);
         targetRot = new THREE.Euler(0, angle, 0);
     }
 
     meshRef.current.position.lerp(targetPos, delta * 3);
     
-    if (appState === AppState.ZOOM && isSelected) {
+    if (isZoomed) {
        meshRef.current.lookAt(state.camera.position);
     } else {
        meshRef.current.rotation.x = THREE.MathUtils.lerp(meshRef.current.rotation.x, targetRot.x, delta * 3);
@@ -221,49 +570,144 @@ const PhotoDisplay = React.memo(({ data, appState, isSelected }: { data: Particl
 
     const currentScale = meshRef.current.scale.x;
     meshRef.current.scale.setScalar(THREE.MathUtils.lerp(currentScale, targetScale, delta * 4));
+
+    // The caption fades in under the photo only while it is zoomed
+    if (captionRef.current) {
+      const mat = captionRef.current.material as THREE.MeshBasicMaterial;
+      const targetOpacity = isZoomed ? 1 : 0;
+      mat.opacity = THREE.MathUtils.lerp(mat.opacity, targetOpacity, delta * 6);
+      captionRef.current.visible = mat.opacity > 0.01;
+    }
   });
 
   if (!data.photoUrl) return null;
 
   return (
     <group ref={meshRef} position={data.initialPos}>
-       <mesh ref={borderRef} position={[0,0,-0.06]}>
-         <boxGeometry args={[1.1, 1.1, 0.05]} />
+       <mesh ref={borderRef} geometry={frameGeometry}>
          <meshStandardMaterial 
-            color={COLORS.GOLD} 
-            metalness={1} 
-            roughness={0.2} 
-            emissive={COLORS.GOLD}
+            color={isPolaroid ? '#F7F3EA' : undefined}
+            metalness={isPolaroid ? 0 : 1} 
+            roughness={isPolaroid ? 0.9 : 0.2} 
             emissiveIntensity={0}
          />
        </mesh>
-       <DreiImage 
-        url={data.photoUrl} 
-        transparent 
-        opacity={1}
-        side={THREE.DoubleSide}
-        scale={[1, 1, 1]}
-       />
+       {texture && (
+         <mesh>
+           {layout.round
+             ? <circleGeometry args={[layout.photoWidth / 2, 48]} />
+             : <planeGeometry args={[layout.photoWidth, layout.photoHeight]} />}
+           <meshBasicMaterial map={texture} side={THREE.DoubleSide} toneMapped={false} />
+         </mesh>
+       )}
+       {strip && (
+         <mesh position={[0, -layout.photoHeight / 2 - POLAROID_STRIP / 2, 0]}>
+           <planeGeometry args={[stripWidth, stripWidth / strip.aspect]} />
+           <meshBasicMaterial map={strip.texture} toneMapped={false} />
+         </mesh>
+       )}
+       {caption && (
+         <mesh ref={captionRef} position={[0, frameBottom - CAPTION_GAP - captionHeight / 2, 0]} visible={false}>
+           <planeGeometry args={[layout.frameWidth, captionHeight]} />
+           <meshBasicMaterial map={caption.texture} transparent opacity={0} depthWrite={false} toneMapped={false} />
+         </mesh>
+       )}
     </group>
   );
 });
 
-const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef, activePhotoIndex, onPhotoSelect }) => {
-  const particles = useMemo(() => {
+const Experience: React.FC<ExperienceProps> = ({
+  appState,
+  photos,
+  handDataRef,
+  treeSpinRef,
+  shape,
+  picture,
+  theme,
+  audio,
+  photoTextures,
+  photoFrame,
+  onVideoSoundChange,
+  perfStats,
+  quality,
+  qualityManager,
+  snapshotRef,
+  activePhotoIndex,
+  onPhotoSelect
+}) => {
+  const [liveTheme] = useState(() => new LiveTheme(theme));
+  const [initialTheme] = useState(theme); // Background and fog are created once, then recolored live
+  const keyLightRef = useRef<THREE.PointLight>(null);
+  const fillLightRef = useRef<THREE.PointLight>(null);
+  // Created here rather than through <Bloom>, whose ref is typed as the class instead of an instance
+  const bloom = useMemo(() => new BloomEffect({ luminanceThreshold: 0.2, mipmapBlur: true, intensity: 1.5 }), []);
+  useEffect(() => () => bloom.dispose(), [bloom]);
+  const composerRef = useRef<EffectComposerImpl>(null);
+  const getThree = useThree(state => state.get);
+
+  // Renders one frame at a higher pixel ratio, post-processing included, and copies it out.
+  // Everything happens within one task, so the screen never shows the oversized frame and the
+  // drawing buffer is still intact when it's copied
+  useEffect(() => {
+    if (!snapshotRef) return;
+    snapshotRef.current = (width: number) => {
+      const { gl, scene, camera, size, viewport, setDpr } = getThree();
+      const composer = composerRef.current; // Absent on tiers without post-processing
+
+      const maxSize = gl.capabilities.maxTextureSize;
+      const previousDpr = viewport.dpr;
+      const dpr = Math.min(width / size.width, maxSize / Math.max(size.width, size.height));
+      try {
+        setDpr(dpr);
+        if (composer) {
+          composer.setSize(size.width, size.height);
+          composer.render(0);
+        } else {
+          gl.render(scene, camera);
+        }
+
+        const source = gl.domElement;
+        const copy = document.createElement('canvas');
+        copy.width = source.width;
+        copy.height = source.height;
+        copy.getContext('2d')?.drawImage(source, 0, 0);
+        return copy;
+      } finally {
+        setDpr(previousDpr);
+        composer?.setSize(size.width, size.height);
+      }
+    };
+    return () => {
+      snapshotRef.current = null;
+    };
+  }, [snapshotRef, getThree]);
+
+  useEffect(() => {
+    liveTheme.setTarget(theme);
+  }, [liveTheme, theme]);
+
+  useFrame((state, delta) => {
+    liveTheme.update(delta);
+    audio.update(delta);
+    const { bass, mid, treble, beat } = audio.levels;
+    if (keyLightRef.current) {
+      keyLightRef.current.color.copy(liveTheme.primary);
+      keyLightRef.current.intensity = 1 + bass * 1.5 + beat;
+    }
+    if (fillLightRef.current) {
+      fillLightRef.current.color.copy(liveTheme.secondary);
+      fillLightRef.current.intensity = 0.5 + treble;
+    }
+    if (state.scene.background instanceof THREE.Color) state.scene.background.copy(liveTheme.background);
+    state.scene.fog?.color.copy(liveTheme.fog);
+    bloom.intensity = liveTheme.bloomIntensity * (1 + beat * 0.6 + mid * 0.4);
+  });
+
+  const baseParticles = useMemo(() => {
     const count = CONFIG.PARTICLE_COUNT;
-    const phi = Math.PI * (3 - Math.sqrt(5));
     const types: ParticleData['type'][] = ['SPHERE', 'CUBE', 'CYLINDER'];
 
     return Array.from({ length: count }).map((_, i) => {
-      const t = i / count;
-      const yTree = (t * CONFIG.TREE_HEIGHT) - (CONFIG.TREE_HEIGHT / 2);
-      const maxRadius = (1 - t) * CONFIG.TREE_RADIUS_BASE;
-      const angle = i * phi;
-      const rJitter = maxRadius * (0.3 + 0.7 * Math.sqrt(Math.random()));
-
-      const xTree = rJitter * Math.cos(angle);
-      const zTree = rJitter * Math.sin(angle);
-
       const rScatter = CONFIG.SCATTER_RADIUS;
       const xScatter = (Math.random() - 0.5) * rScatter * 2;
       const yScatter = (Math.random() - 0.5) * rScatter * 1.5;
@@ -274,8 +718,10 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
       return {
         id: i,
         initialPos: [xScatter, yScatter, zScatter],
-        treePos: [xTree, yTree, zTree],
+        treePos: [0, 0, 0], // Filled in from the current shape below
         scatterPos: [xScatter, yScatter, zScatter],
+        picturePos: [0, 0, 0], // ...and from the current picture
+        pictureColor: '',
         type,
         color: '', 
         scale: Math.random() * 0.3 + 0.1,
@@ -284,6 +730,20 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
     });
   }, []);
 
+  // Only the gathered positions depend on the shape and picture, so switching morphs the same particles
+  // Lower quality tiers use a prefix of the same particles, so stepping between them keeps the rest in place
+  const particles = useMemo(() => {
+    const active = baseParticles.slice(0, quality.particleCount);
+    const positions = shape.ornaments(active.length);
+    return active.map((p, i) => ({
+      ...p,
+      treePos: positions[i],
+      // Without a picture yet, hold the tree formation
+      picturePos: picture?.positions[i] ?? positions[i],
+      pictureColor: picture?.colors[i] ?? ''
+    }));
+  }, [baseParticles, shape, picture, quality.particleCount]);
+
   const { spheres, cubes, cylinders } = useMemo(() => {
       const s: ParticleData[] = [];
       const c: ParticleData[] = [];
@@ -299,27 +759,25 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
   const [photoParticles, setPhotoParticles] = useState<ParticleData[]>([]);
 
   useEffect(() => {
-    const newParticles = photos.map((url, i): ParticleData => {
-        const t = i / photos.length;
-        const yTree = ((1 - t) * CONFIG.TREE_HEIGHT) - (CONFIG.TREE_HEIGHT / 2);
-        const radius = ((1 - t) * CONFIG.TREE_RADIUS_BASE) + 2.0; 
-        const angle = i * 2.5; 
-        const xTree = radius * Math.cos(angle);
-        const zTree = radius * Math.sin(angle);
-
+    const treePositions = shape.photos(photos.length);
+    setPhotoParticles(prev => photos.map((photo, i): ParticleData => {
+        // Photos already in the scene keep their spots, so editing or reordering doesn't shuffle them
+        const existing = prev.find(p => p.photo?.id === photo.id);
         return {
             id: i + 1000,
             initialPos: [0, 0, 0],
-            treePos: [xTree, yTree, zTree],
-            scatterPos: [(Math.random()-0.5)*15, (Math.random()-0.5)*15, (Math.random()-0.5)*10],
+            treePos: existing?.treePos ?? treePositions[i],
+            picturePos: [0, 0, 0],
+            pictureColor: '',
+            scatterPos: existing?.scatterPos ?? [(Math.random()-0.5)*15, (Math.random()-0.5)*15, (Math.random()-0.5)*10],
             type: 'PHOTO',
             color: 'white',
             scale: 1,
-            photoUrl: url,
+            photoUrl: photo.url,
+            photo,
             rotationSpeed: [0, 0, 0]
         };
-    });
-    setPhotoParticles(newParticles);
+    }));
   }, [photos]);
 
   useEffect(() => {
@@ -327,14 +785,7 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
       setPhotoParticles(prev => {
           const next = prev.map(p => ({...p})); 
           if (appState === AppState.TREE) {
-              const treePositions: [number, number, number][] = next.map((_, i) => {
-                  const t = i / next.length;
-                  const yTree = ((1 - t) * CONFIG.TREE_HEIGHT) - (CONFIG.TREE_HEIGHT / 2);
-                  const radius = ((1 - t) * CONFIG.TREE_RADIUS_BASE) + 2.0; 
-                  const angle = i * 2.5; 
-                  return [radius * Math.cos(angle), yTree, radius * Math.sin(angle)];
-              });
-              const shuffledPositions = shuffle(treePositions);
+              const shuffledPositions = shuffle(shape.photos(next.length));
               next.forEach((p, i) => {
                   p.treePos = shuffledPositions[i];
               });
@@ -346,16 +797,29 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
           }
           return next;
       });
-  }, [appState, photos.length]);
+  }, [appState, photos.length, shape]);
 
   const vec3Ref = useRef(new THREE.Vector3());
+  const pictureCamRef = useRef(new THREE.Vector3());
+  const treeGroupRef = useRef<THREE.Group>(null);
+  // Two-hand manipulation: values captured when the current bimanual gesture started
+  const manipulationRef = useRef({
+    gesture: TwoHandGesture.NONE,
+    startDistance: 1,
+    startAngle: 0,
+    startScale: 1,
+    startRotation: 0,
+    targetScale: 1,
+    targetRotation: 0
+  });
   
   useFrame((state) => {
-    if (appState === AppState.ZOOM) return;
+    if (appState === AppState.ZOOM || appState === AppState.PICTURE) return;
     const handData = handDataRef.current;
     if (!handData.isPresent || photoParticles.length === 0) return;
-    const ndcX = (handData.position.x * 2) - 1;
-    const ndcY = -(handData.position.y * 2) + 1; 
+    const selectPoint = handData.cursor ?? handData.position;
+    const ndcX = (selectPoint.x * 2) - 1;
+    const ndcY = -(selectPoint.y * 2) + 1; 
 
     let minDist = Infinity;
     let closestIndex: number = -1;
@@ -364,6 +828,7 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
         if (appState === AppState.TREE) vec3Ref.current.set(...p.treePos);
         else vec3Ref.current.set(...p.scatterPos);
         
+        if (treeGroupRef.current) vec3Ref.current.applyMatrix4(treeGroupRef.current.matrixWorld);
         vec3Ref.current.project(state.camera);
         
         const dx = vec3Ref.current.x - ndcX;
@@ -381,6 +846,59 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
     }
   });
 
+  // Render FPS, averaged over half-second windows
+  const fpsSampleRef = useRef({ frames: 0, elapsed: 0 });
+  useFrame((_, delta) => {
+    qualityManager?.recordFrame(delta);
+    if (!perfStats) return;
+    const sample = fpsSampleRef.current;
+    sample.frames++;
+    sample.elapsed += delta;
+    if (sample.elapsed >= 0.5) {
+      perfStats.renderFps = sample.frames / sample.elapsed;
+      sample.frames = 0;
+      sample.elapsed = 0;
+    }
+  });
+
+  // Two-hand scale and spin of the whole tree, plus momentum from swipes and stirs
+  useFrame((_, delta) => {
+    const group = treeGroupRef.current;
+    if (!group) return;
+    const manip = manipulationRef.current;
+    const twoHand = handDataRef.current.twoHand;
+    const isLocked = appState === AppState.ZOOM || appState === AppState.PICTURE;
+    const gesture = twoHand && !isLocked ? twoHand.gesture : TwoHandGesture.NONE;
+
+    if (twoHand && gesture !== manip.gesture) {
+      manip.startDistance = Math.max(twoHand.distance, 0.01);
+      manip.startAngle = twoHand.angle;
+      manip.startScale = manip.targetScale;
+      manip.startRotation = manip.targetRotation;
+    }
+    manip.gesture = gesture;
+
+    if (twoHand && gesture === TwoHandGesture.SPREAD) {
+      manip.targetScale = THREE.MathUtils.clamp(manip.startScale * (twoHand.distance / manip.startDistance), 0.5, 2);
+    } else if (twoHand && gesture === TwoHandGesture.ROTATE) {
+      // Screen y grows downwards, so a clockwise turn of the hands gives a positive angle
+      manip.targetRotation = manip.startRotation - (twoHand.angle - manip.startAngle) * 2;
+    }
+
+    if (appState === AppState.PICTURE) {
+      // Turn back to the nearest front-facing angle so the picture reads head-on
+      const fullTurn = Math.PI * 2;
+      manip.targetRotation = Math.round(manip.targetRotation / fullTurn) * fullTurn;
+      treeSpinRef.current = 0;
+    } else if (Math.abs(treeSpinRef.current) > 0.001) {
+      manip.targetRotation += treeSpinRef.current * delta;
+      treeSpinRef.current *= Math.exp(-delta * 1.5);
+    }
+
+    group.scale.setScalar(THREE.MathUtils.lerp(group.scale.x, manip.targetScale, delta * 5));
+    group.rotation.y = THREE.MathUtils.lerp(group.rotation.y, manip.targetRotation, delta * 5);
+  });
+
   useFrame((state, delta) => {
     const handData = handDataRef.current;
     if (appState === AppState.SCATTER) {
@@ -399,38 +917,55 @@ const Experience: React.FC<ExperienceProps> = ({ appState, photos, handDataRef,
       state.camera.position.z = Math.cos(time * 0.1) * r;
       state.camera.position.y = THREE.MathUtils.lerp(state.camera.position.y, 0, delta);
       state.camera.lookAt(0, 0, 0);
+    } else if (appState === AppState.PICTURE) {
+      pictureCamRef.current.set(0, 0, 25);
+      state.camera.position.lerp(pictureCamRef.current, delta * 2);
+      state.camera.lookAt(0, 0, 0);
     }
   });
 
   return (
     <>
-      <ambientLight args={[0xffffff, 0.2]} />
-      <pointLight position={[10, 10, 10]} intensity={1} color={COLORS.GOLD} />
-      <pointLight position={[-10, -10, -10]} intensity={0.5} color={COLORS.RED} />
-      <spotLight position={[0, 20, 0]} intensity={1.5} angle={0.5} castShadow />
-      <Environment preset="city" />
-
-      <group>
-        <InstancedOrnaments data={spheres} geometry={sphereGeo} material={goldMat} appState={appState} />
-        <InstancedOrnaments data={cubes} geometry={cubeGeo} material={snowMat} appState={appState} />
-        <InstancedOrnaments data={cylinders} geometry={cylinderGeo} material={redMat} appState={appState} />
-      </group>
-
-      <group>
-        {photoParticles.map((p, idx) => (
-             <PhotoDisplay 
-                key={p.id} 
-                data={p} 
-                appState={appState} 
-                isSelected={idx === activePhotoIndex} 
-             />
-        ))}
+      {/* Without the environment map, metals have nothing to reflect; lift the ambient instead */}
+      <ambientLight args={[0xffffff, quality.environment ? 0.2 : 0.6]} />
+      <color attach="background" args={[initialTheme.palette.background]} />
+      <fog attach="fog" args={[initialTheme.palette.fog, 10, 50]} />
+      <pointLight ref={keyLightRef} position={[10, 10, 10]} intensity={1} />
+      <pointLight ref={fillLightRef} position={[-10, -10, -10]} intensity={0.5} />
+      <spotLight position={[0, 20, 0]} intensity={1.5} angle={0.5} castShadow={quality.shadows} />
+      {quality.environment && <Environment files={ENVIRONMENT_MAP_URL} />}
+
+      <group ref={treeGroupRef}>
+        <group>
+          <InstancedOrnaments data={spheres} geometry={sphereGeometry(quality.sphereSegments)} material={sphereMat} look={liveTheme.sphere} levels={audio.levels} band="bass" appState={appState} />
+          <InstancedOrnaments data={cubes} geometry={cubeGeo} material={cubeMat} look={liveTheme.cube} levels={audio.levels} band="mid" appState={appState} />
+          <InstancedOrnaments data={cylinders} geometry={cylinderGeometry(quality.cylinderSegments)} material={cylinderMat} look={liveTheme.cylinder} levels={audio.levels} band="treble" appState={appState} />
+        </group>
+
+        <group>
+          {photoParticles.map((p, idx) => (
+               <PhotoDisplay 
+                  key={p.photo?.id ?? p.id} 
+                  data={p} 
+                  appState={appState} 
+                  isSelected={idx === activePhotoIndex} 
+                  faceForward={shape.flat}
+                  frameColor={liveTheme.primary}
+                  frameStyle={photoFrame}
+                  textures={photoTextures}
+                  videoPlayback={quality.videoPlayback}
+                  onVideoSound={onVideoSoundChange}
+               />
+          ))}
+        </group>
       </group>
 
-      <EffectComposer enableNormalPass={false}>
-        <Bloom luminanceThreshold={0.2} mipmapBlur intensity={1.5} />
-        <Vignette eskil={false} offset={0.1} darkness={1.1} />
-      </EffectComposer>
+      {quality.postProcessing && (
+        <EffectComposer ref={composerRef} enableNormalPass={false} multisampling={quality.multisampling}>
+          <primitive object={bloom} />
+          <Vignette eskil={false} offset={0.1} darkness={1.1} />
+        </EffectComposer>
+      )}
     </>
   );
 };
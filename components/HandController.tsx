@@ -1,122 +1,172 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { HandTrackingService } from '../services/handTrackingService';
-import { HandGesture, HandTrackingResult } from '../types';
+import { HandResultProcessor } from '../services/handResultProcessor';
+import { LandmarkRecorder } from '../services/landmarkRecorder';
+import { LandmarkReplayService } from '../services/landmarkReplayService';
+import {
+  CameraSettings,
+  CameraStatus,
+  GestureThresholds,
+  HandResults,
+  HandResultsSource,
+  HandTrackingResult,
+  LandmarkRecording,
+  PerformanceStats
+} from '../types';
+import { CAMERA_STATUS_MESSAGES, DEFAULT_CAMERA_SETTINGS, DEFAULT_GESTURE_THRESHOLDS } from '../constants';
 
 interface Props {
   onUpdate: (result: HandTrackingResult) => void;
+  hidePreview?: boolean; // Keep tracking but get the preview out of the way (e.g. on phones)
+  twoHandMode?: boolean; // Track both hands and derive bimanual gestures
+  replay?: LandmarkRecording | null; // Play this recording instead of using the camera
+  recorder?: LandmarkRecorder;       // Receives every raw frame while it is recording
+  thresholds?: GestureThresholds;    // Calibrated classifier tuning
+  onRawResults?: (results: HandResults) => void; // Unprocessed frames, e.g. for calibration
+  perfStats?: PerformanceStats; // Shared stats: render FPS is read from it, inference numbers written to it
+  camera?: CameraSettings;      // Device, resolution and mirroring; changes are applied without a restart
+  onCameraStatus?: (status: CameraStatus) => void;
+  previewRef?: React.MutableRefObject<HTMLVideoElement | null>; // Exposes the preview, e.g. for video recording
 }
 
-const HandController: React.FC<Props> = React.memo(({ onUpdate }) => {
+const HandController: React.FC<Props> = React.memo(({
+  onUpdate,
+  hidePreview = false,
+  twoHandMode = false,
+  replay = null,
+  recorder,
+  thresholds = DEFAULT_GESTURE_THRESHOLDS,
+  onRawResults,
+  perfStats,
+  camera = DEFAULT_CAMERA_SETTINGS,
+  onCameraStatus,
+  previewRef
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [permissionGranted, setPermissionGranted] = useState(false);
+  const [status, setStatus] = useState<CameraStatus>('loading');
+  const serviceRef = useRef<HandTrackingService | null>(null);
+  const twoHandModeRef = useRef(twoHandMode);
+  const cameraRef = useRef(camera);
+  const onCameraStatusRef = useRef(onCameraStatus);
+  const recorderRef = useRef(recorder);
+  const onRawResultsRef = useRef(onRawResults);
   
-  // Refs for smoothing and debouncing
+  // Smoothing and debouncing live in the processor
   // We use a ref to track mount status to avoid state updates after unmount
   const isMountedRef = useRef(true);
-  const prevPositionRef = useRef({ x: 0.5, y: 0.5 });
-  const gestureHistoryRef = useRef<HandGesture[]>([]);
-  const lastEmittedGestureRef = useRef<HandGesture>(HandGesture.NONE);
+  const processorRef = useRef(new HandResultProcessor(twoHandMode, thresholds));
+
+  useEffect(() => {
+    recorderRef.current = recorder;
+  }, [recorder]);
+
+  useEffect(() => {
+    onRawResultsRef.current = onRawResults;
+  }, [onRawResults]);
+
+  useEffect(() => {
+    onCameraStatusRef.current = onCameraStatus;
+  }, [onCameraStatus]);
+
+  useEffect(() => {
+    if (!previewRef) return;
+    previewRef.current = videoRef.current;
+    return () => {
+      previewRef.current = null;
+    };
+  }, [previewRef]);
+
+  useEffect(() => {
+    cameraRef.current = camera;
+    processorRef.current.setMirrored(camera.mirror);
+    serviceRef.current?.setCamera(camera);
+  }, [camera]);
+
+  useEffect(() => {
+    processorRef.current.setThresholds(thresholds);
+  }, [thresholds]);
+
+  useEffect(() => {
+    twoHandModeRef.current = twoHandMode;
+    processorRef.current.setTwoHandMode(twoHandMode);
+    serviceRef.current?.setMaxNumHands(twoHandMode ? 2 : 1);
+  }, [twoHandMode]);
 
   useEffect(() => {
     isMountedRef.current = true;
-    let service: HandTrackingService | null = null;
+    let source: HandResultsSource | null = null;
+
+    const handleStatus = (next: CameraStatus) => {
+      if (!isMountedRef.current) return;
+      setStatus(next);
+      onCameraStatusRef.current?.(next);
+    };
+
+    const handleResults = (results: HandResults) => {
+      if (!isMountedRef.current) return;
+      recorderRef.current?.capture(results);
+      onRawResultsRef.current?.(results);
+      // Emit stabilized result
+      onUpdate(processorRef.current.process(results, performance.now()));
+    };
+
+    const startSource = async () => {
+      if (replay) {
+        source = new LandmarkReplayService(replay, handleResults);
+        await source.start();
+        handleStatus('ready');
+        return;
+      }
 
-    const startCamera = async () => {
       if (!videoRef.current) return;
       
       try {
-        service = new HandTrackingService(videoRef.current, (results) => {
-          if (!isMountedRef.current) return;
-
-          let gesture = HandGesture.NONE;
-          let rawX = 0.5;
-          let rawY = 0.5;
-          let isPresent = false;
-
-          if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            const landmarks = results.multiHandLandmarks[0];
-            gesture = HandTrackingService.detectGesture(landmarks);
-            
-            // Raw position from wrist (0) or palm center (9)
-            const palm = landmarks[9] || landmarks[0];
-            rawX = 1 - palm.x; // Mirror horizontal
-            rawY = palm.y;
-            isPresent = true;
-          }
-
-          // --- 1. Position Smoothing (Lerp) ---
-          // Factor: 0.1 gives a heavier, smoother "cinematic" camera feel
-          const smoothingFactor = 0.1; 
-          
-          if (isPresent) {
-            const smoothX = prevPositionRef.current.x + (rawX - prevPositionRef.current.x) * smoothingFactor;
-            const smoothY = prevPositionRef.current.y + (rawY - prevPositionRef.current.y) * smoothingFactor;
-            
-            prevPositionRef.current = { x: smoothX, y: smoothY };
-          }
-
-          // --- 2. Gesture Debouncing ---
-          // We keep a small history buffer to prevent flickering between states
-          if (isPresent) {
-              gestureHistoryRef.current.push(gesture);
-              if (gestureHistoryRef.current.length > 5) {
-                  gestureHistoryRef.current.shift();
-              }
-
-              // Count occurrences
-              const counts = gestureHistoryRef.current.reduce((acc, g) => {
-                  acc[g] = (acc[g] || 0) + 1;
-                  return acc;
-              }, {} as Record<string, number>);
-
-              // Find dominant gesture
-              const dominant = Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b) as HandGesture;
-              
-              // Confidence check: dominate gesture must be > 3 frames
-              if (counts[dominant] >= 3) {
-                  lastEmittedGestureRef.current = dominant;
-              }
-          } else {
-              // Clear history quickly if hand is lost so we don't get stuck
-              gestureHistoryRef.current = [];
-              lastEmittedGestureRef.current = HandGesture.NONE;
-          }
-
-          // Emit stabilized result
-          onUpdate({
-            gesture: lastEmittedGestureRef.current,
-            position: prevPositionRef.current,
-            isPresent: isPresent
-          });
-        });
+        const service = new HandTrackingService(
+          videoRef.current,
+          handleResults,
+          twoHandModeRef.current ? 2 : 1,
+          perfStats,
+          cameraRef.current,
+          handleStatus
+        );
+        source = service;
+        serviceRef.current = service;
 
         await service.start();
-        if (isMountedRef.current) setPermissionGranted(true);
       } catch (err) {
         console.error("Camera init failed:", err);
       }
     };
 
-    startCamera();
+    startSource();
 
     return () => {
       isMountedRef.current = false;
-      service?.stop();
+      source?.stop();
+      serviceRef.current = null;
     };
-  }, [onUpdate]);
+  }, [onUpdate, replay, perfStats]);
+
+  const isReady = status === 'ready';
 
   return (
-    <div className="fixed bottom-4 right-4 z-50 overflow-hidden rounded-xl border-2 border-gold-500/50 shadow-lg shadow-gold-500/20 bg-black">
+    <div className={`fixed bottom-4 right-4 z-50 overflow-hidden rounded-xl border-2 border-gold-500/50 shadow-lg shadow-gold-500/20 bg-black ${hidePreview ? 'invisible' : ''}`}>
       <video
         ref={videoRef}
-        className={`w-32 h-24 object-cover transform -scale-x-100 transition-opacity duration-500 ${permissionGranted ? 'opacity-100' : 'opacity-0'}`}
+        className={`w-20 h-16 sm:w-32 sm:h-24 object-cover transform ${camera.mirror ? '-scale-x-100' : ''} transition-opacity duration-500 ${isReady ? 'opacity-100' : 'opacity-0'}`}
         playsInline
         muted
         autoPlay
       />
-      {!permissionGranted && (
-        <div className="absolute inset-0 flex items-center justify-center text-xs text-white">
-          Loading...
+      {!isReady && (
+        <div className={`absolute inset-0 flex items-center justify-center p-1 text-center text-[10px] sm:text-xs leading-tight
+                         ${status === 'loading' ? 'text-white' : 'text-[#D14768]'}`}>
+          {CAMERA_STATUS_MESSAGES[status]}
+        </div>
+      )}
+      {replay && (
+        <div className="absolute inset-0 flex items-center justify-center text-[10px] uppercase tracking-widest text-[#E6B2B8] bg-black/70">
+          Replay
         </div>
       )}
     </div>
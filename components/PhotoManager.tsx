@@ -0,0 +1,139 @@
+import React from 'react';
+import { Photo, PhotoMetadata } from '../types';
+import { MEDIA_ACCEPT } from '../constants';
+
+interface Props {
+  photos: Photo[];
+  uploaderName: string; // Stamped on new uploads
+  onUploaderNameChange: (name: string) => void;
+  onUpdatePhoto: (id: string, changes: Partial<PhotoMetadata>) => void;
+  onMovePhoto: (id: string, offset: -1 | 1) => void;
+  onReplacePhoto: (id: string, file: File) => void;
+  onRemovePhoto: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-1 text-sm text-white';
+const iconButtonClass = `w-7 h-7 rounded-full text-[#E6B2B8] hover:bg-[#E6B2B8]/20 transition-colors text-xs
+                         disabled:opacity-30 disabled:hover:bg-transparent`;
+
+const PhotoManager: React.FC<Props> = ({
+  photos,
+  uploaderName,
+  onUploaderNameChange,
+  onUpdatePhoto,
+  onMovePhoto,
+  onReplacePhoto,
+  onRemovePhoto,
+  onClose
+}) => (
+  <div className="absolute top-0 right-0 h-full w-full max-w-md z-40 pointer-events-auto overflow-y-auto
+                  bg-[#1F0B12]/85 backdrop-blur-md border-l border-[#E6B2B8]/30 p-6 shadow-lg">
+    <div className="flex justify-between items-center mb-6">
+      <h2 className="text-2xl text-[#E6B2B8] font-serif tracking-widest">Photos</h2>
+      <button
+        onClick={onClose}
+        className="w-8 h-8 rounded-full text-[#E6B2B8] hover:bg-[#E6B2B8]/20 transition-colors"
+        title="Close Photos"
+      >
+        ✕
+      </button>
+    </div>
+
+    <label className="flex items-center gap-3 text-sm mb-6">
+      <span className="w-24 shrink-0">Your name</span>
+      <input
+        type="text"
+        value={uploaderName}
+        onChange={e => onUploaderNameChange(e.target.value)}
+        placeholder="Added to new uploads"
+        className={inputClass}
+      />
+    </label>
+
+    {photos.length === 0 && (
+      <p className="text-[11px] opacity-60 leading-relaxed">No photos yet. Add some with + Photos.</p>
+    )}
+
+    <ol className="flex flex-col gap-4">
+      {photos.map((photo, i) => (
+        <li key={photo.id} className="flex gap-3 border-b border-[#E6B2B8]/10 pb-4">
+          <div className="flex flex-col items-center gap-1">
+            {photo.kind === 'video' ? (
+              <video
+                src={photo.url}
+                muted
+                playsInline
+                preload="metadata"
+                className="w-20 h-20 object-cover rounded border border-[#E6B2B8]/30"
+              />
+            ) : (
+              <img src={photo.url} alt="" className="w-20 h-20 object-cover rounded border border-[#E6B2B8]/30" />
+            )}
+            <div className="flex">
+              <button onClick={() => onMovePhoto(photo.id, -1)} disabled={i === 0} className={iconButtonClass} title="Move up">
+                ▲
+              </button>
+              <button
+                onClick={() => onMovePhoto(photo.id, 1)}
+                disabled={i === photos.length - 1}
+                className={iconButtonClass}
+                title="Move down"
+              >
+                ▼
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 flex flex-col gap-2 min-w-0">
+            <input
+              type="text"
+              value={photo.caption}
+              onChange={e => onUpdatePhoto(photo.id, { caption: e.target.value })}
+              placeholder="Caption"
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              <input
+                type="date"
+                value={photo.date ?? ''}
+                onChange={e => onUpdatePhoto(photo.id, { date: e.target.value || null })}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={photo.uploader}
+                onChange={e => onUpdatePhoto(photo.id, { uploader: e.target.value })}
+                placeholder="From"
+                className={inputClass}
+              />
+            </div>
+            <div className="flex gap-4 text-[10px] uppercase tracking-wider">
+              <label className="cursor-pointer text-[#E6B2B8] hover:text-white transition-colors">
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={MEDIA_ACCEPT}
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) onReplacePhoto(photo.id, file);
+                    e.target.value = '';
+                  }}
+                />
+                Replace
+              </label>
+              <button
+                onClick={() => onRemovePhoto(photo.id)}
+                className="uppercase tracking-wider text-[#D14768] hover:text-white transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default PhotoManager;
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { HandGesture, HandTrackingResult } from '../types';
+import { POINTER_KEY_GESTURES } from '../constants';
+
+interface Props {
+  enabled: boolean;
+  onUpdate: (result: HandTrackingResult) => void;
+}
+
+// Mouse position stands in for the palm, held keys stand in for hand poses.
+// Emits the same HandTrackingResult stream as HandController so the rest of the app doesn't care.
+const PointerController: React.FC<Props> = React.memo(({ enabled, onUpdate }) => {
+  const positionRef = useRef({ x: 0.5, y: 0.5 });
+  const gestureRef = useRef<HandGesture>(HandGesture.NONE);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const emit = () => {
+      onUpdate({
+        gesture: gestureRef.current,
+        position: positionRef.current,
+        isPresent: true
+      });
+    };
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse') return;
+      positionRef.current = {
+        x: e.clientX / window.innerWidth,
+        y: e.clientY / window.innerHeight
+      };
+      emit();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTyping(e.target)) return;
+      const gesture = POINTER_KEY_GESTURES[e.key.toLowerCase()];
+      if (!gesture) return;
+      gestureRef.current = gesture;
+      emit();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const gesture = POINTER_KEY_GESTURES[e.key.toLowerCase()];
+      // Only release if it's the key currently held
+      if (!gesture || gestureRef.current !== gesture) return;
+      gestureRef.current = HandGesture.NONE;
+      emit();
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    // Announce presence right away so the UI reflects the switch
+    emit();
+
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      gestureRef.current = HandGesture.NONE;
+    };
+  }, [enabled, onUpdate]);
+
+  return null;
+});
+
+export default PointerController;
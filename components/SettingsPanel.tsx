@@ -0,0 +1,734 @@
+import React, { useState } from 'react';
+import { createSvgPathShape, extractSvgPathData } from '../services/treeShapes';
+import { isRecordingSupported } from '../services/sceneRecorder';
+import {
+  AppState,
+  CalibrationProfile,
+  CameraResolution,
+  CameraSettings,
+  CameraStatus,
+  GestureAction,
+  GestureBindings,
+  HandGesture,
+  PhotoFrameStyle,
+  PlaybackSettings,
+  QualityPreference,
+  QualityTier,
+  RecordingSettings,
+  RepeatMode,
+  SnapshotFrame,
+  SnapshotResolution,
+  SnapshotSettings,
+  Theme,
+  Track,
+  TreeShape
+} from '../types';
+import {
+  ACTION_LABELS,
+  CAMERA_RESOLUTIONS,
+  CAMERA_STATUS_MESSAGES,
+  DEFAULT_SVG_SHAPE_PATH,
+  GESTURE_LABELS,
+  MAX_AUDIO_SENSITIVITY,
+  PHOTO_FRAME_LABELS,
+  QUALITY_PREFERENCE_LABELS,
+  RECORDING_DURATIONS,
+  REPEAT_MODE_LABELS,
+  SNAPSHOT_FRAME_LABELS,
+  SNAPSHOT_RESOLUTIONS,
+  THEME_PRESETS,
+  TREE_SHAPE_LABELS
+} from '../constants';
+
+interface Props {
+  bindings: GestureBindings;
+  onBindingsChange: (bindings: GestureBindings) => void;
+  onResetBindings: () => void;
+  twoHandMode: boolean;
+  onTwoHandModeChange: (enabled: boolean) => void;
+  showDebugOverlay: boolean;
+  onShowDebugOverlayChange: (enabled: boolean) => void;
+  photoFrame: PhotoFrameStyle;
+  onPhotoFrameChange: (style: PhotoFrameStyle) => void;
+  qualityPreference: QualityPreference;
+  qualityTier: QualityTier; // What is actually rendering, e.g. the tier 'auto' settled on
+  onQualityPreferenceChange: (preference: QualityPreference) => void;
+  themes: Theme[];
+  activeThemeId: string;
+  onSelectTheme: (id: string) => void;
+  onImportTheme: (file: File) => Promise<void>;
+  onExportTheme: () => void;
+  onDeleteTheme: (id: string) => void;
+  audioSensitivity: number;
+  onAudioSensitivityChange: (sensitivity: number) => void;
+  tracks: Track[]; // Uploaded playlist; empty means the theme's music plays
+  currentTrackId: string | null;
+  onPlayTrack: (id: string) => void;
+  onRemoveTrack: (id: string) => void;
+  onClearTracks: () => void;
+  playbackSettings: PlaybackSettings;
+  onPlaybackSettingsChange: (settings: PlaybackSettings) => void;
+  recordingSettings: RecordingSettings;
+  onRecordingSettingsChange: (settings: RecordingSettings) => void;
+  snapshotSettings: SnapshotSettings;
+  onSnapshotSettingsChange: (settings: SnapshotSettings) => void;
+  pictureText: string;
+  onPictureTextChange: (text: string) => void;
+  pictureImageName: string | null; // Set while an uploaded image replaces the text
+  onPictureImageChange: (image: File | null) => void;
+  treeShape: TreeShape;
+  onTreeShapeChange: (shape: TreeShape) => void;
+  customShapePath: string;
+  onCustomShapePathChange: (path: string) => void;
+  cameraSettings: CameraSettings;
+  onCameraSettingsChange: (settings: CameraSettings) => void;
+  cameraDevices: MediaDeviceInfo[];
+  cameraStatus: CameraStatus;
+  isRecordingLandmarks: boolean;
+  onToggleLandmarkRecording: () => void;
+  isReplaying: boolean;
+  onReplayLoad: (file: File) => void;
+  onReplayStop: () => void;
+  calibrationProfiles: CalibrationProfile[];
+  activeProfileName: string | null;
+  onSelectProfile: (name: string | null) => void;
+  onDeleteProfile: (name: string) => void;
+  onStartCalibration: () => void;
+  onClose: () => void;
+}
+
+const STATES = Object.values(AppState);
+const GESTURES = Object.values(HandGesture).filter(g => g !== HandGesture.NONE);
+const ACTIONS = Object.values(GestureAction);
+const SHAPES = Object.values(TreeShape);
+const PRESET_THEME_IDS = THEME_PRESETS.map(t => t.id);
+const RESOLUTIONS = Object.keys(CAMERA_RESOLUTIONS) as CameraResolution[];
+const REPEAT_MODES = Object.keys(REPEAT_MODE_LABELS) as RepeatMode[];
+const SNAPSHOT_SIZES = Object.keys(SNAPSHOT_RESOLUTIONS) as SnapshotResolution[];
+const SNAPSHOT_FRAMES = Object.keys(SNAPSHOT_FRAME_LABELS) as SnapshotFrame[];
+const PHOTO_FRAMES = Object.keys(PHOTO_FRAME_LABELS) as PhotoFrameStyle[];
+const QUALITY_PREFERENCES = Object.keys(QUALITY_PREFERENCE_LABELS) as QualityPreference[];
+
+const buttonClass = `px-4 py-2 border border-[#E6B2B8]/50 text-[#E6B2B8] rounded-full bg-black/20 transition-all duration-300
+                     hover:bg-[#E6B2B8] hover:text-[#1F0B12] font-serif uppercase tracking-widest text-[10px]`;
+
+const SettingsPanel: React.FC<Props> = ({
+  bindings,
+  onBindingsChange,
+  onResetBindings,
+  twoHandMode,
+  onTwoHandModeChange,
+  showDebugOverlay,
+  onShowDebugOverlayChange,
+  photoFrame,
+  onPhotoFrameChange,
+  qualityPreference,
+  qualityTier,
+  onQualityPreferenceChange,
+  themes,
+  activeThemeId,
+  onSelectTheme,
+  onImportTheme,
+  onExportTheme,
+  onDeleteTheme,
+  audioSensitivity,
+  onAudioSensitivityChange,
+  tracks,
+  currentTrackId,
+  onPlayTrack,
+  onRemoveTrack,
+  onClearTracks,
+  playbackSettings,
+  onPlaybackSettingsChange,
+  recordingSettings,
+  onRecordingSettingsChange,
+  snapshotSettings,
+  onSnapshotSettingsChange,
+  pictureText,
+  onPictureTextChange,
+  pictureImageName,
+  onPictureImageChange,
+  treeShape,
+  onTreeShapeChange,
+  customShapePath,
+  onCustomShapePathChange,
+  cameraSettings,
+  onCameraSettingsChange,
+  cameraDevices,
+  cameraStatus,
+  isRecordingLandmarks,
+  onToggleLandmarkRecording,
+  isReplaying,
+  onReplayLoad,
+  onReplayStop,
+  calibrationProfiles,
+  activeProfileName,
+  onSelectProfile,
+  onDeleteProfile,
+  onStartCalibration,
+  onClose
+}) => {
+  const [pathDraft, setPathDraft] = useState(customShapePath);
+  const [pathError, setPathError] = useState<string | null>(null);
+  const [themeError, setThemeError] = useState<string | null>(null);
+
+  const applyShapePath = (path: string) => {
+    setPathDraft(path);
+    if (!createSvgPathShape(path)) {
+      setPathError('That path has no visible outline.');
+      return;
+    }
+    setPathError(null);
+    onCustomShapePathChange(path);
+  };
+
+  const loadSvgFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      console.error("Failed to read SVG file:", e);
+      setPathError(`Couldn't read ${file.name}.`);
+      return;
+    }
+    const path = extractSvgPathData(text);
+    if (path) {
+      applyShapePath(path);
+    } else {
+      setPathError('No <path> elements found in that SVG.');
+    }
+  };
+
+  const setBinding = (state: AppState, gesture: HandGesture, action: GestureAction) => {
+    // NONE is stored rather than deleted, so loading doesn't fill the default back in
+    const forState = { ...bindings[state], [gesture]: action };
+    onBindingsChange({ ...bindings, [state]: forState });
+  };
+
+  return (
+    <div className="absolute top-0 right-0 h-full w-full max-w-md z-40 pointer-events-auto overflow-y-auto
+                    bg-[#1F0B12]/85 backdrop-blur-md border-l border-[#E6B2B8]/30 p-6 shadow-lg">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl text-[#E6B2B8] font-serif tracking-widest">Settings</h2>
+        <button
+          onClick={onClose}
+          className="w-8 h-8 rounded-full text-[#E6B2B8] hover:bg-[#E6B2B8]/20 transition-colors"
+          title="Close Settings"
+        >
+          ✕
+        </button>
+      </div>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Theme</h3>
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            value={activeThemeId}
+            onChange={e => onSelectTheme(e.target.value)}
+            className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+          >
+            {themes.map(theme => (
+              <option key={theme.id} value={theme.id}>{theme.name}</option>
+            ))}
+          </select>
+          {!PRESET_THEME_IDS.includes(activeThemeId) && (
+            <button
+              onClick={() => onDeleteTheme(activeThemeId)}
+              className="text-[10px] uppercase tracking-wider text-[#D14768] hover:text-white transition-colors"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className={`${buttonClass} cursor-pointer`}>
+            <input
+              type="file"
+              className="hidden"
+              accept="application/json,.json"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (!file) return;
+                onImportTheme(file).then(
+                  () => setThemeError(null),
+                  err => {
+                    console.error("Failed to import theme:", err);
+                    setThemeError(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+                  }
+                );
+              }}
+            />
+            Import JSON
+          </label>
+          <button onClick={onExportTheme} className={buttonClass}>Export JSON</button>
+        </div>
+        {themeError && <p className="mt-2 text-[11px] text-[#D14768]">{themeError}</p>}
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          Colors, materials, glow, subtitle and default music. Export a preset, edit the JSON and import it
+          to make your own; fields left out keep their default values.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Music</h3>
+        {tracks.length > 0 ? (
+          <ol className="mb-3 max-h-48 overflow-y-auto">
+            {tracks.map((track, i) => (
+              <li key={track.id} className="flex items-center gap-2 py-1 text-sm">
+                <span className="w-5 text-right text-[11px] opacity-50">{i + 1}</span>
+                <button
+                  onClick={() => onPlayTrack(track.id)}
+                  className={`flex-1 truncate text-left transition-colors hover:text-white
+                              ${track.id === currentTrackId ? 'text-[#E6B2B8]' : 'opacity-80'}`}
+                  title={track.name}
+                >
+                  {track.name}
+                </button>
+                <button
+                  onClick={() => onRemoveTrack(track.id)}
+                  className="text-xs text-[#D14768] hover:text-white transition-colors"
+                  title="Remove from playlist"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="mb-3 text-[11px] opacity-60 leading-relaxed">
+            Upload tracks with the BGM button to build a playlist. Until then the theme's own track plays, if it names one.
+          </p>
+        )}
+        <div className="flex items-center gap-4 mb-4 text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={playbackSettings.shuffle}
+              onChange={e => onPlaybackSettingsChange({ ...playbackSettings, shuffle: e.target.checked })}
+              className="accent-[#E6B2B8]"
+            />
+            Shuffle
+          </label>
+          <label className="flex items-center gap-2">
+            Repeat
+            <select
+              value={playbackSettings.repeat}
+              onChange={e => onPlaybackSettingsChange({ ...playbackSettings, repeat: e.target.value as RepeatMode })}
+              className="bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-1 text-sm text-white"
+            >
+              {REPEAT_MODES.map(mode => (
+                <option key={mode} value={mode}>{REPEAT_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+          {tracks.length > 0 && (
+            <button
+              onClick={onClearTracks}
+              className="ml-auto text-[10px] uppercase tracking-wider text-[#D14768] hover:text-white transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <label className="flex items-center gap-3 text-sm">
+          <span className="w-24 shrink-0">Sensitivity</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_AUDIO_SENSITIVITY}
+            step={0.1}
+            value={audioSensitivity}
+            onChange={e => onAudioSensitivityChange(Number(e.target.value))}
+            className="flex-1 accent-[#E6B2B8]"
+          />
+          <span className="w-10 text-right text-xs opacity-70">
+            {audioSensitivity === 0 ? 'Off' : `${audioSensitivity.toFixed(1)}×`}
+          </span>
+        </label>
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          While music plays, ornaments pulse to the beat and the lights and glow follow the bass, mids and highs.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Photo Frames</h3>
+        <select
+          value={photoFrame}
+          onChange={e => onPhotoFrameChange(e.target.value as PhotoFrameStyle)}
+          className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+        >
+          {PHOTO_FRAMES.map(style => (
+            <option key={style} value={style}>{PHOTO_FRAME_LABELS[style]}</option>
+          ))}
+        </select>
+        <p className="mt-2 text-[11px] opacity-60 leading-relaxed">
+          Gold and polaroid frames follow each photo's shape; a polaroid writes the caption on its strip.
+          Baubles show a round crop.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Snapshot</h3>
+        <label className="flex items-center gap-3 text-sm mb-3">
+          <span className="w-24 shrink-0">Resolution</span>
+          <select
+            value={snapshotSettings.resolution}
+            onChange={e => onSnapshotSettingsChange({ ...snapshotSettings, resolution: e.target.value as SnapshotResolution })}
+            className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+          >
+            {SNAPSHOT_SIZES.map(size => (
+              <option key={size} value={size}>{SNAPSHOT_RESOLUTIONS[size].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-3 text-sm mb-3">
+          <span className="w-24 shrink-0">Frame</span>
+          <select
+            value={snapshotSettings.frame}
+            onChange={e => onSnapshotSettingsChange({ ...snapshotSettings, frame: e.target.value as SnapshotFrame })}
+            className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+          >
+            {SNAPSHOT_FRAMES.map(frame => (
+              <option key={frame} value={frame}>{SNAPSHOT_FRAME_LABELS[frame]}</option>
+            ))}
+          </select>
+        </label>
+        <input
+          type="text"
+          value={snapshotSettings.caption}
+          onChange={e => onSnapshotSettingsChange({ ...snapshotSettings, caption: e.target.value })}
+          placeholder="Caption (optional)"
+          className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+        />
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          Snap in the header (or the Take Snapshot gesture) renders the current view at this size and saves it as a PNG.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Video Recording</h3>
+        {isRecordingSupported() ? (
+          <>
+            <label className="flex items-center gap-3 text-sm mb-3">
+              <span className="w-24 shrink-0">Max length</span>
+              <select
+                value={recordingSettings.maxDurationSeconds}
+                onChange={e => onRecordingSettingsChange({ ...recordingSettings, maxDurationSeconds: Number(e.target.value) })}
+                className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+              >
+                {RECORDING_DURATIONS.map(seconds => (
+                  <option key={seconds} value={seconds}>
+                    {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds === 60 ? '' : 's'}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={recordingSettings.includeOverlay}
+                onChange={e => onRecordingSettingsChange({ ...recordingSettings, includeOverlay: e.target.checked })}
+                className="accent-[#E6B2B8]"
+              />
+              Include camera preview and title
+            </label>
+            <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+              Rec in the header captures the scene and music to a WebM download. Bind "Start / Stop Recording"
+              to a gesture below to control it hands-free.
+            </p>
+          </>
+        ) : (
+          <p className="text-[11px] opacity-60 leading-relaxed">This browser can't record video.</p>
+        )}
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Tree Shape</h3>
+        <select
+          value={treeShape}
+          onChange={e => onTreeShapeChange(e.target.value as TreeShape)}
+          className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+        >
+          {SHAPES.map(shape => (
+            <option key={shape} value={shape}>{TREE_SHAPE_LABELS[shape]}</option>
+          ))}
+        </select>
+        {treeShape === TreeShape.SVG_PATH && (
+          <div className="mt-3">
+            <textarea
+              value={pathDraft}
+              onChange={e => setPathDraft(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              placeholder="SVG path data, e.g. M0 0 L10 0 L5 10 Z"
+              className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-[11px] font-mono text-white"
+            />
+            {pathError && <p className="mb-2 text-[11px] text-[#D14768]">{pathError}</p>}
+            <div className="flex flex-wrap gap-2 mt-1">
+              <button onClick={() => applyShapePath(pathDraft)} className={buttonClass}>Apply</button>
+              <label className={`${buttonClass} cursor-pointer`}>
+                <input
+                  type="file"
+                  className="hidden"
+                  accept="image/svg+xml,.svg"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) loadSvgFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                Load SVG
+              </label>
+              <button onClick={() => applyShapePath(DEFAULT_SVG_SHAPE_PATH)} className={buttonClass}>Reset</button>
+            </div>
+          </div>
+        )}
+        <p className="mt-2 text-[11px] opacity-60 leading-relaxed">
+          The figure the ornaments gather into. For a logo or event name, load an SVG with the text
+          converted to outlines; transforms inside the file are ignored.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Picture Formation</h3>
+        {pictureImageName ? (
+          <p className="text-sm mb-3 truncate">Image: {pictureImageName}</p>
+        ) : (
+          <textarea
+            value={pictureText}
+            onChange={e => onPictureTextChange(e.target.value)}
+            rows={2}
+            placeholder="Merry Christmas"
+            className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 mb-2 text-sm text-white"
+          />
+        )}
+        <div className="flex flex-wrap gap-2">
+          <label className={`${buttonClass} cursor-pointer`}>
+            <input
+              type="file"
+              className="hidden"
+              accept="image/*"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) onPictureImageChange(file);
+                e.target.value = '';
+              }}
+            />
+            Use Image
+          </label>
+          {pictureImageName && (
+            <button onClick={() => onPictureImageChange(null)} className={buttonClass}>Use Text</button>
+          )}
+        </div>
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          The ornaments draw this greeting (one line per row) or image, each taking the color of its pixel.
+          Images with transparent backgrounds work best.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Graphics Quality</h3>
+        <select
+          value={qualityPreference}
+          onChange={e => onQualityPreferenceChange(e.target.value as QualityPreference)}
+          className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+        >
+          {QUALITY_PREFERENCES.map(preference => (
+            <option key={preference} value={preference}>
+              {preference === 'auto'
+                ? `${QUALITY_PREFERENCE_LABELS.auto} (${QUALITY_PREFERENCE_LABELS[qualityTier]})`
+                : QUALITY_PREFERENCE_LABELS[preference]}
+            </option>
+          ))}
+        </select>
+        <p className="mt-2 text-[11px] opacity-60 leading-relaxed">
+          Automatic lowers ornament count, detail, glow effects and resolution when frames run slow,
+          and raises them again once there is headroom.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Hand Tracking</h3>
+        <label className="flex items-center gap-3 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={twoHandMode}
+            onChange={e => onTwoHandModeChange(e.target.checked)}
+            className="accent-[#E6B2B8]"
+          />
+          Two-hand mode
+        </label>
+        <p className="mt-2 text-[11px] opacity-60 leading-relaxed">
+          Tracks both hands: spread open hands to scale the tree, turn two fists to spin it,
+          point with one hand and close the other to zoom the selected photo.
+        </p>
+        <label className="flex items-center gap-3 text-sm cursor-pointer mt-4">
+          <input
+            type="checkbox"
+            checked={showDebugOverlay}
+            onChange={e => onShowDebugOverlayChange(e.target.checked)}
+            className="accent-[#E6B2B8]"
+          />
+          Show performance overlay
+        </label>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Camera</h3>
+        <select
+          value={cameraSettings.deviceId ?? ''}
+          onChange={e => onCameraSettingsChange({ ...cameraSettings, deviceId: e.target.value || null })}
+          className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 mb-2 text-sm text-white"
+        >
+          <option value="">Default (front camera)</option>
+          {cameraDevices.map((device, i) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `Camera ${i + 1}`}</option>
+          ))}
+          {/* Keep a saved camera selectable while it's unplugged */}
+          {cameraSettings.deviceId && !cameraDevices.some(d => d.deviceId === cameraSettings.deviceId) && (
+            <option value={cameraSettings.deviceId}>Saved camera (not connected)</option>
+          )}
+        </select>
+        <div className="flex items-center gap-4">
+          <select
+            value={cameraSettings.resolution}
+            onChange={e => onCameraSettingsChange({ ...cameraSettings, resolution: e.target.value as CameraResolution })}
+            className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+          >
+            {RESOLUTIONS.map(resolution => (
+              <option key={resolution} value={resolution}>{CAMERA_RESOLUTIONS[resolution].label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-3 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={cameraSettings.mirror}
+              onChange={e => onCameraSettingsChange({ ...cameraSettings, mirror: e.target.checked })}
+              className="accent-[#E6B2B8]"
+            />
+            Mirror
+          </label>
+        </div>
+        <p className={`mt-2 text-[11px] ${cameraStatus === 'ready' || cameraStatus === 'loading' ? 'opacity-60' : 'text-[#D14768]'}`}>
+          {CAMERA_STATUS_MESSAGES[cameraStatus]}
+        </p>
+        <p className="mt-2 text-[11px] opacity-60 leading-relaxed">
+          Higher resolutions help when people stand far away but cost inference time. If the chosen camera is unplugged,
+          tracking switches to another one and comes back when it reconnects.
+        </p>
+      </section>
+
+      <section className="mb-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Calibration</h3>
+        <div className="flex items-center gap-2 mb-3">
+          <select
+            value={activeProfileName ?? ''}
+            onChange={e => onSelectProfile(e.target.value || null)}
+            className="flex-1 bg-black/30 border border-[#E6B2B8]/30 rounded px-2 py-2 text-sm text-white"
+          >
+            <option value="">Default (uncalibrated)</option>
+            {calibrationProfiles.map(profile => (
+              <option key={profile.name} value={profile.name}>{profile.name}</option>
+            ))}
+          </select>
+          {activeProfileName && (
+            <button
+              onClick={() => onDeleteProfile(activeProfileName)}
+              className="text-[10px] uppercase tracking-wider text-[#D14768] hover:text-white transition-colors"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onStartCalibration} className={buttonClass}>Calibrate</button>
+          {activeProfileName && (
+            <button onClick={() => onSelectProfile(null)} className={buttonClass}>Reset to Default</button>
+          )}
+        </div>
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          Fits gesture detection to one person's hands. Create a profile for each family member and switch between them here.
+        </p>
+      </section>
+
+      <section>
+        <div className="flex justify-between items-baseline mb-3">
+          <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest">Gesture Bindings</h3>
+          <button
+            onClick={onResetBindings}
+            className="text-[10px] uppercase tracking-wider text-[#D14768] hover:text-white transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[#E6B2B8]/70 uppercase tracking-wider">
+              <th className="text-left font-normal pb-2">Gesture</th>
+              {STATES.map(state => (
+                <th key={state} className="text-left font-normal pb-2 pl-2">In {state.toLowerCase()}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {GESTURES.map(gesture => (
+              <tr key={gesture} className="border-t border-[#E6B2B8]/10">
+                <td className="py-2 pr-2 font-serif">{GESTURE_LABELS[gesture]}</td>
+                {STATES.map(state => (
+                  <td key={state} className="py-2 pl-2">
+                    <select
+                      value={bindings[state]?.[gesture] ?? GestureAction.NONE}
+                      onChange={e => setBinding(state, gesture, e.target.value as GestureAction)}
+                      className="w-full bg-black/30 border border-[#E6B2B8]/30 rounded px-1 py-1 text-white"
+                    >
+                      {ACTIONS.map(action => (
+                        <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          Actions fire once when a gesture is first recognized. Zoom only happens while photos are loaded.
+        </p>
+      </section>
+
+      <section className="mt-8">
+        <h3 className="text-sm text-[#E6B2B8] uppercase tracking-widest mb-3">Session Recording</h3>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={onToggleLandmarkRecording} className={buttonClass}>
+            {isRecordingLandmarks ? '■ Stop & Save' : '● Record Landmarks'}
+          </button>
+          {isReplaying ? (
+            <button onClick={onReplayStop} className={buttonClass}>Stop Replay</button>
+          ) : (
+            <label className={`${buttonClass} cursor-pointer`}>
+              <input
+                type="file"
+                className="hidden"
+                accept="application/json,.json"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onReplayLoad(file);
+                  e.target.value = '';
+                }}
+              />
+              Replay File
+            </label>
+          )}
+        </div>
+        <p className="mt-3 text-[11px] opacity-60 leading-relaxed">
+          Records raw hand landmarks to a JSON file. Replaying one feeds it through the same
+          pipeline as the camera, so gesture issues can be reproduced without anyone in front of it.
+        </p>
+      </section>
+    </div>
+  );
+};
+
+export default SettingsPanel;
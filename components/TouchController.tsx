@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import { HandGesture, HandTrackingResult } from '../types';
+import { CONFIG } from '../constants';
+
+interface Props {
+  onActivate: () => void;
+  onUpdate: (result: HandTrackingResult) => void;
+  onZoom: () => void;
+}
+
+const TAP_MAX_MOVE_PX = 20;
+const DRAG_SENSITIVITY = 1.5;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Translates touch into the same HandTrackingResult stream as the camera:
+//  - pinch in  -> FIST (Tree)
+//  - spread    -> OPEN_PALM (Scatter)
+//  - double tap -> zooms into the tapped photo, whatever the gesture bindings say
+//  - one-finger drag -> moves the virtual palm, which orbits the camera in Scatter
+const TouchController: React.FC<Props> = React.memo(({ onActivate, onUpdate, onZoom }) => {
+  const positionRef = useRef({ x: 0.5, y: 0.5 });
+  const cursorRef = useRef({ x: 0.5, y: 0.5 });
+  const gestureRef = useRef<HandGesture>(HandGesture.NONE);
+
+  useEffect(() => {
+    let lastTouch: { x: number; y: number } | null = null;
+    let touchStart: { x: number; y: number } | null = null;
+    let lastTap: { x: number; y: number; time: number } | null = null;
+    let pinchStartDist = 0;
+    let moved = false;
+
+    const emit = (gesture: HandGesture) => {
+      gestureRef.current = gesture;
+      onUpdate({
+        gesture,
+        position: positionRef.current,
+        cursor: cursorRef.current,
+        isPresent: true
+      });
+    };
+
+    // Let buttons and file pickers in the overlay work normally
+    const isUiTarget = (target: EventTarget | null) =>
+      target instanceof Element && target.closest('button, label, input, select, textarea') !== null;
+
+    const distance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (isUiTarget(e.target)) return;
+      onActivate();
+
+      if (e.touches.length === 1) {
+        const t = e.touches[0];
+        lastTouch = { x: t.clientX, y: t.clientY };
+        touchStart = { ...lastTouch };
+        moved = false;
+        cursorRef.current = { x: t.clientX / window.innerWidth, y: t.clientY / window.innerHeight };
+        emit(HandGesture.NONE);
+      } else if (e.touches.length === 2) {
+        pinchStartDist = distance(e.touches);
+        moved = true; // A two-finger touch is never a tap
+      }
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (isUiTarget(e.target)) return;
+      e.preventDefault();
+
+      if (e.touches.length === 1 && lastTouch) {
+        const t = e.touches[0];
+        const dx = (t.clientX - lastTouch.x) / window.innerWidth;
+        const dy = (t.clientY - lastTouch.y) / window.innerHeight;
+        lastTouch = { x: t.clientX, y: t.clientY };
+
+        if (touchStart && Math.hypot(t.clientX - touchStart.x, t.clientY - touchStart.y) > TAP_MAX_MOVE_PX) {
+          moved = true;
+        }
+
+        // Drag nudges the virtual palm relative to where it was, like grabbing the scene
+        positionRef.current = {
+          x: clamp01(positionRef.current.x - dx * DRAG_SENSITIVITY),
+          y: clamp01(positionRef.current.y - dy * DRAG_SENSITIVITY)
+        };
+        emit(gestureRef.current);
+      } else if (e.touches.length === 2 && pinchStartDist > 0) {
+        const ratio = distance(e.touches) / pinchStartDist;
+        if (ratio < CONFIG.PINCH_IN_RATIO && gestureRef.current !== HandGesture.FIST) {
+          emit(HandGesture.FIST);
+        } else if (ratio > CONFIG.SPREAD_RATIO && gestureRef.current !== HandGesture.OPEN_PALM) {
+          emit(HandGesture.OPEN_PALM);
+        }
+      }
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length > 0) return;
+      pinchStartDist = 0;
+      lastTouch = null;
+
+      if (!moved && touchStart) {
+        const now = performance.now();
+        const isDoubleTap = lastTap
+          && now - lastTap.time < CONFIG.DOUBLE_TAP_MS
+          && Math.hypot(touchStart.x - lastTap.x, touchStart.y - lastTap.y) < TAP_MAX_MOVE_PX * 2;
+
+        if (isDoubleTap) {
+          // The first tap already moved the cursor onto the photo
+          onZoom();
+          lastTap = null;
+        } else {
+          lastTap = { ...touchStart, time: now };
+        }
+      }
+      touchStart = null;
+    };
+
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: false });
+    window.addEventListener('touchend', handleTouchEnd);
+    window.addEventListener('touchcancel', handleTouchEnd);
+
+    return () => {
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [onActivate, onUpdate, onZoom]);
+
+  return null;
+});
+
+export default TouchController;
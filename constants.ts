@@ -1,11 +1,25 @@
-
-export const COLORS = {
-  GOLD: '#E6B2B8',       // Rose Gold
-  RED: '#D14768',        // Deep Raspberry Pink
-  MATTE_GREEN: '#F8F9FA',// Snow White (was Green)
-  GLOW_WHITE: '#FFF0F5', // Lavender Blush
-  BG_DARK: '#1F0B12'     // Dark Plum/Burgundy Night Sky
-};
+import {
+  AppState,
+  CameraResolution,
+  CameraSettings,
+  CameraStatus,
+  GestureAction,
+  GestureBindings,
+  GestureThresholds,
+  HandGesture,
+  PhotoFrameStyle,
+  PlaybackSettings,
+  QualityPreference,
+  QualityProfile,
+  QualityTier,
+  RecordingSettings,
+  RepeatMode,
+  SnapshotFrame,
+  SnapshotResolution,
+  SnapshotSettings,
+  Theme,
+  TreeShape
+} from './types';
 
 export const CONFIG = {
   PARTICLE_COUNT: 400,
@@ -13,8 +27,216 @@ export const CONFIG = {
   TREE_RADIUS_BASE: 6,
   SCATTER_RADIUS: 20,
   CAM_ZOOM_SPEED: 0.05,
+  FALLBACK_DELAY_MS: 4000, // Switch to pointer input after this long without seeing a hand
+  DOUBLE_TAP_MS: 300,
+  PINCH_IN_RATIO: 0.7,  // Finger distance ratio that counts as pinching in (Tree)
+  SPREAD_RATIO: 1.4,    // ...and as spreading out (Scatter)
+};
+
+// Classifier tuning used until a calibration profile says otherwise
+export const DEFAULT_GESTURE_THRESHOLDS: GestureThresholds = {
+  foldRatios: [1.1, 1.1, 1.1, 1.1], // The classic "dTip < dPip * 1.1" check
+  extensionRange: 0.3,
+  pinchContact: 0.25,
+  pinchRelease: 0.5,
+  debounceWindow: 5,
+  debounceMinFrames: 3,
 };
 
+// Keyboard stand-ins for hand poses when no camera is available
+export const POINTER_KEY_GESTURES: Record<string, HandGesture> = {
+  f: HandGesture.FIST,
+  o: HandGesture.OPEN_PALM,
+  v: HandGesture.TWO_FINGERS,
+  t: HandGesture.THUMBS_UP,
+  p: HandGesture.POINT,
+  i: HandGesture.PINCH,
+  k: HandGesture.OK,
+};
+
+// Mirrors the original hardcoded state machine, plus entry to and exit from the picture formation
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  [AppState.TREE]: {
+    [HandGesture.OPEN_PALM]: GestureAction.SHOW_SCATTER,
+    [HandGesture.TWO_FINGERS]: GestureAction.SHOW_PICTURE,
+    [HandGesture.THUMBS_UP]: GestureAction.TOGGLE_MUSIC,
+    [HandGesture.OK]: GestureAction.TAKE_SNAPSHOT,
+  },
+  [AppState.SCATTER]: {
+    [HandGesture.FIST]: GestureAction.SHOW_TREE,
+    [HandGesture.TWO_FINGERS]: GestureAction.SHOW_ZOOM,
+    [HandGesture.THUMBS_UP]: GestureAction.TOGGLE_MUSIC,
+    [HandGesture.OK]: GestureAction.TAKE_SNAPSHOT,
+  },
+  [AppState.ZOOM]: {
+    [HandGesture.FIST]: GestureAction.SHOW_TREE,
+    [HandGesture.OPEN_PALM]: GestureAction.SHOW_SCATTER,
+    [HandGesture.POINT]: GestureAction.NEXT_PHOTO,
+    [HandGesture.PINCH]: GestureAction.PREV_PHOTO,
+    [HandGesture.THUMBS_UP]: GestureAction.TOGGLE_MUSIC,
+    [HandGesture.OK]: GestureAction.TAKE_SNAPSHOT,
+  },
+  [AppState.PICTURE]: {
+    [HandGesture.FIST]: GestureAction.SHOW_TREE,
+    [HandGesture.OPEN_PALM]: GestureAction.SHOW_SCATTER,
+    [HandGesture.THUMBS_UP]: GestureAction.TOGGLE_MUSIC,
+    [HandGesture.OK]: GestureAction.TAKE_SNAPSHOT,
+  },
+};
+
+export const GESTURE_LABELS: Record<HandGesture, string> = {
+  [HandGesture.NONE]: 'None',
+  [HandGesture.FIST]: 'Fist',
+  [HandGesture.OPEN_PALM]: 'Open Hand',
+  [HandGesture.TWO_FINGERS]: 'Two Fingers',
+  [HandGesture.THUMBS_UP]: 'Thumbs Up',
+  [HandGesture.POINT]: 'Point',
+  [HandGesture.PINCH]: 'Pinch',
+  [HandGesture.OK]: 'OK Sign',
+};
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  [GestureAction.NONE]: 'Nothing',
+  [GestureAction.SHOW_TREE]: 'Coalesce Tree',
+  [GestureAction.SHOW_SCATTER]: 'Scatter',
+  [GestureAction.SHOW_ZOOM]: 'Zoom Selection',
+  [GestureAction.SHOW_PICTURE]: 'Draw Picture',
+  [GestureAction.NEXT_PHOTO]: 'Next Photo',
+  [GestureAction.PREV_PHOTO]: 'Previous Photo',
+  [GestureAction.TOGGLE_MUSIC]: 'Play / Pause Music',
+  [GestureAction.TAKE_SNAPSHOT]: 'Take Snapshot',
+  [GestureAction.TOGGLE_RECORDING]: 'Start / Stop Recording',
+};
+
+export const TREE_SHAPE_LABELS: Record<TreeShape, string> = {
+  [TreeShape.CONE]: 'Cone Tree',
+  [TreeShape.SPIRAL]: 'Spiral',
+  [TreeShape.STAR]: 'Star',
+  [TreeShape.HEART]: 'Heart',
+  [TreeShape.SVG_PATH]: 'Custom Logo / Text',
+};
+
+export const DEFAULT_PICTURE_TEXT = 'Merry Christmas';
+
+// A bell, used until someone supplies their own logo
+export const DEFAULT_SVG_SHAPE_PATH =
+  'M50 5 C30 5 22 25 22 45 L22 68 L10 84 L90 84 L78 68 L78 45 C78 25 70 5 50 5 Z M40 88 A10 10 0 0 0 60 88 Z';
+
+// Where MediaPipe loads its wasm / model files from. Served with the app by default
+// (see plugins/offlineAssets.ts); set VITE_MEDIAPIPE_BASE to use another host, e.g. a CDN
+export const MEDIAPIPE_ASSET_BASE: string = import.meta.env.VITE_MEDIAPIPE_BASE || `${import.meta.env.BASE_URL}mediapipe/`;
+
+// Reflections for the metal ornaments, shipped under public/ so the scene never needs the network.
+// Poly Haven's Potsdamer Platz (CC0), the map behind drei's "city" preset, as packaged by @pmndrs/assets
+export const ENVIRONMENT_MAP_URL = `${import.meta.env.BASE_URL}environment/city.exr`;
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolution, { label: string; width: number; height: number }> = {
+  '480p': { label: '640 × 480', width: 640, height: 480 },
+  '720p': { label: '1280 × 720', width: 1280, height: 720 },
+  '1080p': { label: '1920 × 1080', width: 1920, height: 1080 },
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: '480p',
+  mirror: true,
+};
+
+// Short enough to fit the camera preview
+export const CAMERA_STATUS_MESSAGES: Record<CameraStatus, string> = {
+  'loading': 'Loading...',
+  'ready': 'Camera ready',
+  'permission-denied': 'Camera permission denied',
+  'no-camera': 'No camera found',
+  'in-use': 'Camera is in use by another app',
+  'insecure-context': 'Camera needs HTTPS',
+  'unsupported': "This browser can't use the camera",
+  'tracking-unavailable': 'Hand tracking failed to load',
+};
+
+export const RECORDING_DURATIONS = [15, 30, 60, 120, 300]; // Seconds
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  maxDurationSeconds: 60,
+  includeOverlay: true
+};
+
+// Widths of the rendered scene; the height follows the window's aspect
+export const SNAPSHOT_RESOLUTIONS: Record<SnapshotResolution, { label: string; width: number }> = {
+  hd: { label: 'HD (1920 px)', width: 1920 },
+  qhd: { label: 'QHD (2560 px)', width: 2560 },
+  '4k': { label: '4K (3840 px)', width: 3840 }
+};
+
+export const SNAPSHOT_FRAME_LABELS: Record<SnapshotFrame, string> = {
+  none: 'No Frame',
+  border: 'Gilded Border',
+  card: 'Greeting Card'
+};
+
+export const DEFAULT_SNAPSHOT_SETTINGS: SnapshotSettings = {
+  resolution: 'qhd',
+  frame: 'card',
+  caption: 'Merry Christmas & Happy New Year'
+};
+
+// Ordered from cheapest to most expensive; the quality manager steps through them one at a time
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high'];
+
+export const QUALITY_PROFILES: Record<QualityTier, QualityProfile> = {
+  low: {
+    particleCount: 200,
+    sphereSegments: 8,
+    cylinderSegments: 5,
+    postProcessing: false,
+    multisampling: 0,
+    maxDpr: 1,
+    environment: false,
+    shadows: false,
+    videoPlayback: false
+  },
+  medium: {
+    particleCount: 300,
+    sphereSegments: 12,
+    cylinderSegments: 6,
+    postProcessing: true,
+    multisampling: 0,
+    maxDpr: 1.25,
+    environment: true,
+    shadows: false,
+    videoPlayback: true
+  },
+  high: {
+    particleCount: CONFIG.PARTICLE_COUNT,
+    sphereSegments: 16,
+    cylinderSegments: 8,
+    postProcessing: true,
+    multisampling: 8,
+    maxDpr: 1.5,
+    environment: true,
+    shadows: true,
+    videoPlayback: true
+  }
+};
+
+export const QUALITY_PREFERENCE_LABELS: Record<QualityPreference, string> = {
+  auto: 'Automatic',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High'
+};
+
+export const PHOTO_FRAME_LABELS: Record<PhotoFrameStyle, string> = {
+  gold: 'Gold Bevel',
+  polaroid: 'Polaroid',
+  bauble: 'Bauble'
+};
+
+export const DEFAULT_PHOTO_FRAME: PhotoFrameStyle = 'gold';
+
+// File picker filter for photos and clips; containers some systems give no video MIME type are listed by name
+export const MEDIA_ACCEPT = 'image/*,video/*,.mkv,.mov,.m4v';
+
 export const PLACEHOLDER_PHOTOS = [
   'https://picsum.photos/400/400?random=1',
   'https://picsum.photos/400/400?random=2',
@@ -22,5 +244,99 @@ export const PLACEHOLDER_PHOTOS = [
   'https://picsum.photos/400/400?random=4',
 ];
 
-// Reliable MP3 source (Kevin MacLeod - Jingle Bells)
-export const CHRISTMAS_MUSIC_URL = 'https://ia801908.us.archive.org/27/items/KevinMacLeod_Christmas/Jingle_Bells.mp3';
+// Multiplier on how strongly the music drives the scene; 0 turns audio reactivity off
+export const DEFAULT_AUDIO_SENSITIVITY = 1;
+export const MAX_AUDIO_SENSITIVITY = 2;
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  volume: 0.4,
+  shuffle: false,
+  repeat: 'all'
+};
+
+export const REPEAT_MODE_LABELS: Record<RepeatMode, string> = {
+  off: 'Off',
+  all: 'Playlist',
+  one: 'Track'
+};
+
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'pink-snow',
+    name: 'Pink Snow',
+    subtitle: 'Winter Pink Snow Edition',
+    palette: {
+      primary: '#E6B2B8',   // Rose Gold
+      secondary: '#D14768', // Deep Raspberry Pink
+      tertiary: '#F8F9FA',  // Snow White
+      glow: '#FFF0F5',      // Lavender Blush
+      background: '#1F0B12', // Dark Plum/Burgundy Night Sky
+      fog: '#1F0B12',
+    },
+    materials: {
+      sphere: { metalness: 0.8, roughness: 0.2, emissive: '#E6B2B8', emissiveIntensity: 0.3 },
+      cube: { metalness: 0.1, roughness: 0.1, emissive: '#FFFFFF', emissiveIntensity: 0.1 },
+      cylinder: { metalness: 0.3, roughness: 0.4, emissive: '#D14768', emissiveIntensity: 0.2 },
+    },
+    bloomIntensity: 1.5,
+  },
+  {
+    id: 'classic',
+    name: 'Classic Green & Red',
+    subtitle: 'Classic Christmas Edition',
+    palette: {
+      primary: '#D4AF37',
+      secondary: '#C0392B',
+      tertiary: '#1E7B45',
+      glow: '#FFF8E1',
+      background: '#06140C',
+      fog: '#06140C',
+    },
+    materials: {
+      sphere: { metalness: 0.9, roughness: 0.15, emissive: '#D4AF37', emissiveIntensity: 0.3 },
+      cube: { metalness: 0.2, roughness: 0.5, emissive: '#0B3D1F', emissiveIntensity: 0.2 },
+      cylinder: { metalness: 0.3, roughness: 0.4, emissive: '#C0392B', emissiveIntensity: 0.25 },
+    },
+    bloomIntensity: 1.2,
+  },
+  {
+    id: 'midnight-blue',
+    name: 'Midnight Blue',
+    subtitle: 'Midnight Blue Edition',
+    palette: {
+      primary: '#9CC9FF',
+      secondary: '#3A5BD9',
+      tertiary: '#E8F1FF',
+      glow: '#F0F6FF',
+      background: '#050B1F',
+      fog: '#050B1F',
+    },
+    materials: {
+      sphere: { metalness: 0.7, roughness: 0.2, emissive: '#9CC9FF', emissiveIntensity: 0.35 },
+      cube: { metalness: 0.1, roughness: 0.1, emissive: '#FFFFFF', emissiveIntensity: 0.15 },
+      cylinder: { metalness: 0.4, roughness: 0.3, emissive: '#3A5BD9', emissiveIntensity: 0.3 },
+    },
+    bloomIntensity: 1.8,
+  },
+  {
+    id: 'gold',
+    name: 'Gold',
+    subtitle: 'Golden Edition',
+    palette: {
+      primary: '#F5C542',
+      secondary: '#B8860B',
+      tertiary: '#FFF4D6',
+      glow: '#FFFBEA',
+      background: '#140E02',
+      fog: '#140E02',
+    },
+    materials: {
+      sphere: { metalness: 1, roughness: 0.15, emissive: '#F5C542', emissiveIntensity: 0.3 },
+      cube: { metalness: 0.6, roughness: 0.25, emissive: '#FFF4D6', emissiveIntensity: 0.1 },
+      cylinder: { metalness: 0.9, roughness: 0.2, emissive: '#B8860B', emissiveIntensity: 0.25 },
+    },
+    bloomIntensity: 1.6,
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
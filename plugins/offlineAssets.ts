@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// Runtime files MediaPipe fetches through locateFile; the rest of the package is typings and docs
+const MEDIAPIPE_EXTENSIONS = ['.js', '.wasm', '.data', '.tflite', '.binarypb'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm',
+};
+
+const SERVICE_WORKER_TEMPLATE = path.resolve(__dirname, 'sw.template.js');
+
+// Paths of everything under dir, relative to it and with forward slashes like URLs
+function listFiles(dir: string, prefix: string = ''): string[] {
+  if (!dir || !fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+}
+
+/**
+ * Makes the app runnable without a network:
+ * - serves MediaPipe's wasm / model files from node_modules under `<base>mediapipe/` in dev
+ *   and copies them into the build,
+ * - emits `sw.js`, a service worker that precaches every file of the build (bundle, fonts,
+ *   MediaPipe assets, and what public/ holds, like the environment map) and caches anything
+ *   fetched from other origins the first time it loads.
+ */
+export function offlineAssets(assetDir: string = 'mediapipe'): Plugin {
+  let config: ResolvedConfig;
+
+  const mediapipeDir = () => path.resolve(config.root, 'node_modules/@mediapipe/hands');
+  const mediapipeFiles = () =>
+    fs.readdirSync(mediapipeDir()).filter(file => MEDIAPIPE_EXTENSIONS.includes(path.extname(file)));
+
+  return {
+    name: 'otman:offline-assets',
+    enforce: 'post',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    configureServer(server) {
+      const prefix = `${config.base}${assetDir}/`;
+      const files = new Set(mediapipeFiles());
+
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0];
+        if (!url?.startsWith(prefix)) return next();
+
+        const file = decodeURIComponent(url.slice(prefix.length));
+        if (!files.has(file)) return next();
+
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(path.join(mediapipeDir(), file)).pipe(res);
+      });
+    },
+
+    generateBundle(_options, bundle) {
+      for (const file of mediapipeFiles()) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${assetDir}/${file}`,
+          source: fs.readFileSync(path.join(mediapipeDir(), file)),
+        });
+      }
+
+      // Hashed file names change with their contents, so they double as the cache version
+      // public/ is copied next to the bundle without passing through it
+      const urls = ['./', ...Object.keys(bundle), ...listFiles(config.publicDir)].sort();
+      const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+
+      const source = fs.readFileSync(SERVICE_WORKER_TEMPLATE, 'utf-8')
+        .replace('__CACHE_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+}
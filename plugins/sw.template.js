@@ -0,0 +1,67 @@
+// Service worker template; plugins/offlineAssets.ts fills in the version and file list at build time.
+
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const PRECACHE = `otman-precache-${CACHE_VERSION}`;
+const RUNTIME = 'otman-runtime';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PRECACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith('otman-precache-') && key !== PRECACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Anything a theme or the user points at on another host (e.g. a theme's music URL)
+// is kept once it has loaded, so it keeps working when the network goes
+const cacheRemote = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Partial (range) responses can't be stored; opaque ones are fine for <img>/<audio> use
+  if (response.status === 200 || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const fromPrecache = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  try {
+    return await fetch(request);
+  } catch (e) {
+    // Offline navigation to any path still gets the app shell
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('./');
+      if (shell) return shell;
+    }
+    throw e;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http')) return;
+
+  event.respondWith(url.origin === self.location.origin ? fromPrecache(request) : cacheRemote(request));
+});
@@ -0,0 +1,132 @@
+// Replays recorded landmark sessions through LandmarkReplayService.runHeadless and checks what the
+// gesture pipeline emits. Loads the TypeScript sources through Vite's SSR loader, so no browser or
+// camera is needed.
+//
+//   npm run test:gestures
+//
+// Record new sessions with Settings > Session Recording > Record Landmarks and add them to CASES.
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Matches SMOOTHING_FACTOR in services/handResultProcessor.ts
+const SMOOTHING_FACTOR = 0.1;
+
+// Palm centre as the processor reports it (mirrored like the selfie view)
+const palm = landmarks => ({ x: 1 - landmarks[9].x, y: landmarks[9].y });
+
+const CASES = [
+  {
+    fixture: 'fixtures/open-fist-victory.json',
+    // A single open frame in the middle of the fist must not get through the debounce
+    gestures: ['NONE', 'OPEN_PALM', 'FIST', 'TWO_FINGERS', 'NONE']
+  },
+  {
+    // Captured through LandmarkRecorder, so it carries the recorder's own timestamps
+    fixture: 'fixtures/point-pinch-ok-thumbs.json',
+    gestures: ['NONE', 'POINT', 'PINCH', 'OK', 'THUMBS_UP', 'NONE']
+  },
+  {
+    fixture: 'fixtures/debounce-window.json',
+    // Two fist frames stay under debounceMinFrames and are dropped, even as the hand arrives; three get through
+    gestures: ['NONE', 'OPEN_PALM', 'FIST', 'OPEN_PALM', 'NONE']
+  },
+  {
+    fixture: 'fixtures/two-hand.json',
+    twoHandMode: true,
+    // While confirming, the pointing hand is the primary one
+    gestures: ['NONE', 'OPEN_PALM', 'FIST', 'POINT', 'NONE'],
+    twoHand: ['NONE', 'SPREAD', 'ROTATE', 'POINT_CONFIRM', 'NONE']
+  },
+  {
+    fixture: 'fixtures/two-hand-swap.json',
+    twoHandMode: true,
+    twoHand: ['NONE', 'SPREAD'],
+    // MediaPipe swaps the hands' order and labels halfway through; each smoothed hand must stay with its own palm
+    check: (results, frames) => {
+      for (let i = 1; i < frames.length; i++) {
+        const palms = frames[i].multiHandLandmarks.map(palm);
+        const hands = results[i].hands ?? [];
+        for (let h = 0; h < hands.length; h++) {
+          const drift = Math.hypot(hands[h].position.x - palms[h].x, hands[h].position.y - palms[h].y);
+          if (drift > 0.05) return `frame ${i}: hand ${h} is ${drift.toFixed(3)} from its palm`;
+        }
+      }
+      return null;
+    }
+  },
+  {
+    fixture: 'fixtures/smoothing-step.json',
+    gestures: ['NONE', 'OPEN_PALM'],
+    // The palm jumps between two still positions; the reported position eases after it
+    check: (results, frames) => {
+      const step = frames.findIndex((frame, i) => i > 0 && palm(frame.multiHandLandmarks[0]).x !== palm(frames[i - 1].multiHandLandmarks[0]).x);
+      const target = palm(frames[step].multiHandLandmarks[0]).x;
+      const before = results[step - 1].position.x;
+
+      const moved = results[step].position.x - before;
+      const expected = (target - before) * SMOOTHING_FACTOR;
+      if (Math.abs(moved - expected) > 1e-6) {
+        return `moved ${moved.toFixed(4)} on the step frame, expected ${expected.toFixed(4)}`;
+      }
+      for (let i = step + 1; i < frames.length; i++) {
+        const remaining = Math.abs(target - results[i].position.x);
+        if (remaining >= Math.abs(target - results[i - 1].position.x)) return `frame ${i}: stopped approaching the palm`;
+        if (Math.sign(target - results[i].position.x) !== Math.sign(target - before)) return `frame ${i}: overshot the palm`;
+      }
+      const residual = Math.abs(target - results[frames.length - 1].position.x) / Math.abs(target - before);
+      const settled = (1 - SMOOTHING_FACTOR) ** (frames.length - step);
+      if (Math.abs(residual - settled) > 1e-6) {
+        return `${(residual * 100).toFixed(1)}% of the step left at the end, expected ${(settled * 100).toFixed(1)}%`;
+      }
+      return null;
+    }
+  }
+];
+
+// Collapses consecutive repeats, so the list reads as the gesture changes the app acts on
+const changes = values => values.filter((value, i) => i === 0 || value !== values[i - 1]);
+
+const compare = (label, expected, actual) => JSON.stringify(actual) === JSON.stringify(expected)
+  ? null
+  : `${label}\n    expected ${expected.join(' -> ')}\n    actual   ${actual.join(' -> ')}`;
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, entries: [] }, // Nothing is served to a browser
+  appType: 'custom'
+});
+
+let failed = 0;
+try {
+  const { HandResultProcessor } = await server.ssrLoadModule('/services/handResultProcessor.ts');
+  const { LandmarkReplayService } = await server.ssrLoadModule('/services/landmarkReplayService.ts');
+
+  for (const { fixture, twoHandMode = false, gestures, twoHand, check } of CASES) {
+    const recording = JSON.parse(await readFile(path.join(root, 'scripts', fixture), 'utf8'));
+    const results = LandmarkReplayService.runHeadless(recording, new HandResultProcessor(twoHandMode));
+
+    const problems = [
+      gestures && compare('gestures', gestures, changes(results.map(r => r.gesture))),
+      twoHand && compare('two-hand', twoHand, changes(results.map(r => r.twoHand?.gesture ?? 'NONE'))),
+      check?.(results, recording.frames)
+    ].filter(Boolean);
+
+    if (problems.length === 0) {
+      console.log(`ok   ${fixture} (${recording.frames.length} frames)`);
+    } else {
+      failed++;
+      console.error(`FAIL ${fixture}\n  ${problems.join('\n  ')}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,52 @@
+// Inference rate bounds: never faster than the old fixed 33ms throttle, never slower than 5Hz
+const MIN_INTERVAL_MS = 33;
+const MAX_INTERVAL_MS = 200;
+// Below this render rate we back inference off, above it we speed back up
+const TARGET_RENDER_FPS = 55;
+const LATENCY_SMOOTHING = 0.2;
+const FPS_WINDOW_MS = 1000;
+
+/**
+ * Decides how often to run hand inference.
+ * Backs off when the render loop drops frames or inference itself is slow,
+ * and creeps back towards 30Hz when there is headroom.
+ */
+export class AdaptiveFrameScheduler {
+  private interval: number = MIN_INTERVAL_MS;
+  private latency: number = 0;
+  private resultTimes: number[] = [];
+
+  public get intervalMs(): number {
+    return this.interval;
+  }
+
+  public get latencyMs(): number {
+    return this.latency;
+  }
+
+  /** Inference results per second over the last second. */
+  public get inferenceFps(): number {
+    return this.resultTimes.length * (1000 / FPS_WINDOW_MS);
+  }
+
+  public recordInference(latencyMs: number, renderFps: number, now: number = performance.now()) {
+    this.latency = this.latency === 0
+      ? latencyMs
+      : this.latency + (latencyMs - this.latency) * LATENCY_SMOOTHING;
+
+    this.resultTimes.push(now);
+    while (this.resultTimes.length > 0 && now - this.resultTimes[0] > FPS_WINDOW_MS) {
+      this.resultTimes.shift();
+    }
+
+    // renderFps of 0 means nobody is measuring yet; leave the rate alone
+    if (renderFps > 0 && renderFps < TARGET_RENDER_FPS - 5) {
+      this.interval *= 1.15;
+    } else if (renderFps >= TARGET_RENDER_FPS) {
+      this.interval *= 0.95;
+    }
+
+    // Asking faster than inference can answer only builds a queue
+    this.interval = Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, this.interval, this.latency * 1.1));
+  }
+}
@@ -0,0 +1,114 @@
+import { AudioLevels } from '../types';
+
+const FFT_SIZE = 1024;
+// Band edges in Hz
+const BASS_RANGE: [number, number] = [20, 150];
+const MID_RANGE: [number, number] = [150, 2000];
+const TREBLE_RANGE: [number, number] = [2000, 8000];
+// A beat is bass energy this far above its recent average, at most every BEAT_MIN_INTERVAL seconds
+const BEAT_THRESHOLD = 1.35;
+const BEAT_MIN_LEVEL = 0.15;
+const BEAT_MIN_INTERVAL = 0.25;
+const BEAT_DECAY_RATE = 6; // Per second
+const AVERAGE_RATE = 1.5; // How quickly the running bass average follows, per second
+const RELEASE_RATE = 4; // How quickly levels fall back to zero once the music stops
+
+/**
+ * Web Audio analysis of the music elements: frequency bands and a simple beat detector.
+ * Elements are only routed through the analyser once its AudioContext is running, so a
+ * blocked context never silences playback. Call update() once per rendered frame and read `levels`.
+ */
+export class AudioAnalyser {
+  public readonly levels: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: 0 };
+  public sensitivity = 1;
+
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private elements: HTMLMediaElement[] = [];
+  private bins: Uint8Array | null = null;
+  private streamDestination: MediaStreamAudioDestinationNode | null = null;
+  private bassAverage = 0;
+  private sinceBeat = Infinity;
+
+  /**
+   * Routes the elements through the analyser. Call from a user gesture (e.g. the play button)
+   * so the browser lets the AudioContext start; safe to call repeatedly.
+   */
+  public async attach(elements: HTMLMediaElement[]) {
+    const AudioContextClass = window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    try {
+      if (!this.context) this.context = new AudioContextClass();
+      if (this.context.state === 'suspended') await this.context.resume();
+      if (this.context.state !== 'running') return;
+
+      if (!this.analyser) {
+        this.analyser = this.context.createAnalyser();
+        this.analyser.fftSize = FFT_SIZE;
+        this.analyser.smoothingTimeConstant = 0.6;
+        this.analyser.connect(this.context.destination);
+        this.bins = new Uint8Array(this.analyser.frequencyBinCount);
+      }
+      // A media element can only ever have one source node, so never connect it twice
+      for (const element of elements) {
+        if (this.elements.includes(element)) continue;
+        this.context.createMediaElementSource(element).connect(this.analyser);
+        this.elements.push(element);
+      }
+    } catch (e) {
+      console.warn("Audio analysis unavailable:", e);
+    }
+  }
+
+  /**
+   * A live stream of the music, e.g. for recording. Null until attach() has routed
+   * the elements through the analyser.
+   */
+  public captureStream(): MediaStream | null {
+    if (!this.context || !this.analyser) return null;
+    if (!this.streamDestination) {
+      this.streamDestination = this.context.createMediaStreamDestination();
+      this.analyser.connect(this.streamDestination);
+    }
+    return this.streamDestination.stream;
+  }
+
+  public update(delta: number) {
+    const levels = this.levels;
+    const playing = this.elements.some(element => !element.paused) && this.sensitivity > 0;
+
+    if (!playing || !this.analyser || !this.bins || !this.context) {
+      const release = Math.exp(-delta * RELEASE_RATE);
+      levels.bass *= release;
+      levels.mid *= release;
+      levels.treble *= release;
+      levels.beat *= release;
+      return;
+    }
+
+    this.analyser.getByteFrequencyData(this.bins);
+    const hzPerBin = this.context.sampleRate / FFT_SIZE;
+    const band = ([low, high]: [number, number]) => {
+      const from = Math.max(0, Math.floor(low / hzPerBin));
+      const to = Math.min(this.bins!.length, Math.max(from + 1, Math.ceil(high / hzPerBin)));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.bins![i];
+      return sum / ((to - from) * 255);
+    };
+
+    const bass = band(BASS_RANGE);
+    const scale = (v: number) => Math.min(1, v * this.sensitivity);
+    levels.bass = scale(bass);
+    levels.mid = scale(band(MID_RANGE));
+    levels.treble = scale(band(TREBLE_RANGE));
+
+    this.sinceBeat += delta;
+    levels.beat *= Math.exp(-delta * BEAT_DECAY_RATE);
+    if (bass > BEAT_MIN_LEVEL && bass > this.bassAverage * BEAT_THRESHOLD && this.sinceBeat > BEAT_MIN_INTERVAL) {
+      levels.beat = scale(1);
+      this.sinceBeat = 0;
+    }
+    this.bassAverage += (bass - this.bassAverage) * (1 - Math.exp(-delta * AVERAGE_RATE));
+  }
+}
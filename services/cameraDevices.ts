@@ -0,0 +1,52 @@
+import { loadSetting, saveSetting } from './settingsStorage';
+import { CameraSettings, CameraStatus } from '../types';
+import { DEFAULT_CAMERA_SETTINGS } from '../constants';
+
+const CAMERA_SETTING_KEY = 'cameraSettings';
+
+// Why the camera can't even be asked for, or null if it can. Browsers hide mediaDevices
+// outside HTTPS, so a missing API only means "unsupported" in a secure context
+export function cameraApiStatus(): CameraStatus | null {
+  if (typeof window === 'undefined' || !window.isSecureContext) return 'insecure-context';
+  if (!navigator.mediaDevices?.getUserMedia) return 'unsupported';
+  return null;
+}
+
+/**
+ * Video inputs currently connected. Browsers only fill in labels once camera permission
+ * has been granted, so call this again after the camera starts.
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+  } catch (e) {
+    console.warn("Failed to enumerate cameras:", e);
+    return [];
+  }
+}
+
+// Maps getUserMedia failures to something we can tell the user
+export function cameraErrorStatus(err: unknown): CameraStatus {
+  switch ((err as DOMException)?.name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return 'permission-denied';
+    case 'SecurityError':
+      return 'insecure-context';
+    case 'NotReadableError':
+    case 'TrackStartError':
+      return 'in-use';
+    default:
+      return 'no-camera';
+  }
+}
+
+export function loadCameraSettings(): CameraSettings {
+  return { ...DEFAULT_CAMERA_SETTINGS, ...loadSetting<Partial<CameraSettings>>(CAMERA_SETTING_KEY, {}) };
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  saveSetting(CAMERA_SETTING_KEY, settings);
+}
@@ -0,0 +1,104 @@
+import { PhotoMetadata } from '../types';
+
+// EXIF lives in the JPEG's APP1 segment near the start of the file
+const HEADER_BYTES = 128 * 1024;
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_ARTIST = 0x013b;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+// Placeholders cameras and editors write into ImageDescription when the user wrote nothing
+const BOILERPLATE_DESCRIPTIONS = [
+  /^([a-z]+ )*digital camera$/i, // OLYMPUS, KONICA MINOLTA, SAMSUNG, LEICA...
+  /^sony dsc$/i,
+  /^exif_jpeg_picture$/i,
+  /^dcim\b/i,
+  /^(default|image|picture|untitled|no description)$/i,
+  /^[-_.]*$/
+];
+
+function meaningfulDescription(value: string | undefined): string | null {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  if (!text || BOILERPLATE_DESCRIPTIONS.some(pattern => pattern.test(text))) return null;
+  return text;
+}
+
+interface IfdEntries {
+  strings: Map<number, string>;
+  exifOffset: number | null;
+}
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): IfdEntries {
+  const strings = new Map<number, string>();
+  let exifOffset: number | null = null;
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+
+    if (tag === TAG_EXIF_IFD && type === TYPE_LONG) {
+      exifOffset = view.getUint32(entry + 8, little);
+    } else if (type === TYPE_ASCII && length > 0) {
+      // Strings of up to 4 bytes are stored inline, longer ones at an offset
+      const start = length <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little);
+      if (start + length > view.byteLength) continue;
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + start, length);
+      // Some writers pad with NULs and spaces in any order
+      strings.set(tag, new TextDecoder().decode(bytes).replace(/\0/g, '').trim());
+    }
+  }
+  return { strings, exifOffset };
+}
+
+// EXIF dates look like "2023:12:24 18:30:00"
+function parseExifDate(value: string | undefined): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return null;
+  return `${match[1]}-${match[2]}-${match[3]}`;
+}
+
+/**
+ * Reads the caption, date taken and artist from a JPEG's EXIF block.
+ * Returns only the fields that were found; anything else (PNGs, stripped files) gives {}.
+ */
+export async function readExifMetadata(file: Blob): Promise<Partial<PhotoMetadata>> {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      const size = view.getUint16(offset + 2);
+      // APP1 starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+        const exif = ifd0.exifOffset !== null ? readIfd(view, tiff, ifd0.exifOffset, little) : null;
+
+        const result: Partial<PhotoMetadata> = {};
+        const caption = meaningfulDescription(ifd0.strings.get(TAG_IMAGE_DESCRIPTION));
+        const artist = ifd0.strings.get(TAG_ARTIST);
+        const date = parseExifDate(exif?.strings.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.strings.get(TAG_DATE_TIME));
+        if (caption) result.caption = caption;
+        if (artist) result.uploader = artist;
+        if (date) result.date = date;
+        return result;
+      }
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of image data: no EXIF
+      offset += 2 + size;
+    }
+  } catch (e) {
+    console.warn("Failed to read EXIF metadata:", e);
+  }
+  return {};
+}
@@ -0,0 +1,98 @@
+import { HandTrackingService } from './handTrackingService';
+import { loadSetting, saveSetting } from './settingsStorage';
+import { CalibrationProfile, GestureThresholds, HandGesture, HandMeasurement, Landmark } from '../types';
+import { DEFAULT_GESTURE_THRESHOLDS } from '../constants';
+
+const PROFILES_SETTING_KEY = 'calibrationProfiles';
+const ACTIVE_PROFILE_SETTING_KEY = 'activeCalibrationProfile';
+
+// Samples collected while the user holds each calibration pose
+export interface CalibrationSamples {
+  openPalm: HandMeasurement[];
+  fist: HandMeasurement[];
+  pinch: HandMeasurement[];
+}
+
+export interface CalibrationFrame {
+  pose: HandGesture;
+  landmarks: Landmark[];
+}
+
+// Minimum fraction of the hold where the fitted classifier must agree with the requested pose
+// before we trust the default 3-of-5 debounce
+const STABLE_AGREEMENT = 0.85;
+// Share of samples dropped from each end before averaging: blinks of mis-tracking, a finger still moving
+const TRIM_FRACTION = 0.1;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+const trimmed = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const cut = Math.floor(sorted.length * TRIM_FRACTION);
+  return sorted.length > cut * 2 ? sorted.slice(cut, sorted.length - cut) : sorted;
+};
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/**
+ * Fits classifier thresholds to one person's hand, from trimmed samples of each pose.
+ * Each finger's fold threshold sits halfway between how it measured open and how it measured
+ * in a fist; the pinch threshold is taken from their actual pinch with some slack.
+ * Returns null when any finger's open and fist measurements overlap, since no threshold
+ * could tell them apart; the poses should be captured again.
+ */
+export function fitThresholds(samples: CalibrationSamples, landmarkFrames?: CalibrationFrame[]): GestureThresholds | null {
+  const fingers = [0, 1, 2, 3].map(f => ({
+    open: trimmed(samples.openPalm.map(m => m.fingerRatios[f])),
+    fist: trimmed(samples.fist.map(m => m.fingerRatios[f]))
+  }));
+  const separated = fingers.every(({ open, fist }) =>
+    open.length > 0 && fist.length > 0 && open[0] > fist[fist.length - 1]
+  );
+  if (!separated) return null;
+
+  const foldRatios = fingers.map(({ open, fist }) => (mean(open) + mean(fist)) / 2) as GestureThresholds['foldRatios'];
+
+  // Narrowest open/fist gap of any finger decides how sharp the folded/extended transition is
+  const gaps = fingers.map(({ open, fist }) => mean(open) - mean(fist));
+  const extensionRange = clamp(Math.min(...gaps), 0.1, 0.6);
+
+  const pinchContact = clamp(mean(trimmed(samples.pinch.map(m => m.pinchDistance))) * 1.3, 0.1, 0.5);
+  const pinchRelease = pinchContact + 0.25;
+
+  const thresholds: GestureThresholds = {
+    ...DEFAULT_GESTURE_THRESHOLDS,
+    foldRatios,
+    extensionRange,
+    pinchContact,
+    pinchRelease
+  };
+
+  // Shaky tracking (small hands, far from camera, gloves) gets a longer debounce
+  if (landmarkFrames && landmarkFrames.length > 0) {
+    const agreeing = landmarkFrames.filter(frame =>
+      HandTrackingService.detectGesture(frame.landmarks, thresholds) === frame.pose
+    ).length;
+    if (agreeing / landmarkFrames.length < STABLE_AGREEMENT) {
+      thresholds.debounceWindow = 7;
+      thresholds.debounceMinFrames = 4;
+    }
+  }
+
+  return thresholds;
+}
+
+export function loadCalibrationProfiles(): CalibrationProfile[] {
+  return loadSetting<CalibrationProfile[]>(PROFILES_SETTING_KEY, []);
+}
+
+export function saveCalibrationProfiles(profiles: CalibrationProfile[]) {
+  saveSetting(PROFILES_SETTING_KEY, profiles);
+}
+
+/** Name of the profile in use, or null for the built-in defaults. */
+export function loadActiveProfileName(): string | null {
+  return loadSetting<string | null>(ACTIVE_PROFILE_SETTING_KEY, null);
+}
+
+export function saveActiveProfileName(name: string | null) {
+  saveSetting(ACTIVE_PROFILE_SETTING_KEY, name);
+}
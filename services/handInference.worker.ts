@@ -0,0 +1,84 @@
+// Runs MediaPipe Hands off the main thread so inference doesn't compete with the R3F render loop.
+// Loaded as a classic worker: MediaPipe's hands.js is a plain script that registers a global.
+
+interface WorkerScope {
+  importScripts: (...urls: string[]) => void;
+  postMessage: (message: any) => void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  Hands?: any;
+}
+
+const scope = self as unknown as WorkerScope;
+let hands: any = null;
+let pendingSentAt = 0;
+let busy = false; // hands.send() is still working on a frame
+
+scope.onmessage = async (event: MessageEvent) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init': {
+      try {
+        scope.importScripts(`${message.assetBase}hands.js`);
+        if (!scope.Hands) throw new Error("Hands global missing after importScripts");
+
+        hands = new scope.Hands({
+          locateFile: (file: string) => `${message.assetBase}${file}`
+        });
+        hands.setOptions({
+          maxNumHands: message.maxNumHands,
+          modelComplexity: 0, // Lite model for performance
+          minDetectionConfidence: 0.5,
+          minTrackingConfidence: 0.5
+        });
+        hands.onResults((results: any) => {
+          // Only the landmark data is cloneable / needed; drop the image
+          scope.postMessage({
+            type: 'results',
+            sentAt: pendingSentAt,
+            results: {
+              multiHandLandmarks: results.multiHandLandmarks,
+              multiHandedness: results.multiHandedness
+            }
+          });
+        });
+        await hands.initialize();
+        scope.postMessage({ type: 'ready' });
+      } catch (e) {
+        scope.postMessage({ type: 'error', message: String(e) });
+      }
+      break;
+    }
+
+    case 'options':
+      hands?.setOptions({ maxNumHands: message.maxNumHands });
+      break;
+
+    case 'frame': {
+      const bitmap: ImageBitmap = message.bitmap;
+      // The main thread re-sends after a stall; overlapping sends would mix up sentAt and pile up bitmaps
+      if (!hands || busy) {
+        bitmap.close();
+        scope.postMessage({ type: 'dropped', sentAt: message.sentAt });
+        break;
+      }
+      busy = true;
+      try {
+        pendingSentAt = message.sentAt;
+        await hands.send({ image: bitmap });
+      } catch (e) {
+        // Usually a one-off; the main thread decides whether failures keep coming
+        scope.postMessage({ type: 'send-failed', sentAt: message.sentAt, message: String(e) });
+      } finally {
+        busy = false;
+        bitmap.close();
+      }
+      break;
+    }
+
+    case 'close':
+      hands?.close();
+      hands = null;
+      break;
+  }
+};
@@ -0,0 +1,215 @@
+import { HandTrackingService } from './handTrackingService';
+import { MotionGestureRecognizer } from './motionGestureRecognizer';
+import { DEFAULT_GESTURE_THRESHOLDS } from '../constants';
+import {
+  GestureScores,
+  GestureThresholds,
+  HandData,
+  HandGesture,
+  HandResults,
+  HandTrackingResult,
+  Handedness,
+  MotionGesture,
+  TwoHandData,
+  TwoHandGesture
+} from '../types';
+
+// Factor: 0.1 gives a heavier, smoother "cinematic" camera feel
+const SMOOTHING_FACTOR = 0.1;
+
+const CONFIRM_GESTURES = [HandGesture.FIST, HandGesture.PINCH];
+// Farther than this from every hand in the last frame, a hand is treated as new rather than smoothed
+const HAND_MATCH_DISTANCE = 0.25;
+
+type Point = { x: number; y: number };
+
+const smooth = (prev: Point, x: number, y: number): Point => ({
+  x: prev.x + (x - prev.x) * SMOOTHING_FACTOR,
+  y: prev.y + (y - prev.y) * SMOOTHING_FACTOR
+});
+
+interface TrackedHand {
+  raw: Point;      // Where it was detected, for matching
+  smoothed: Point; // Where it was reported
+}
+
+// Pairs each detected hand with the nearest unclaimed hand from the previous frame. MediaPipe's
+// handedness labels flip when hands cross or one is briefly lost, so they can't key the smoothing
+function matchPrevious(previous: TrackedHand[], current: Point[]): (TrackedHand | null)[] {
+  const pairs: { from: number; to: number; distance: number }[] = [];
+  previous.forEach((p, from) => current.forEach((c, to) => {
+    const distance = Math.hypot(p.raw.x - c.x, p.raw.y - c.y);
+    if (distance < HAND_MATCH_DISTANCE) pairs.push({ from, to, distance });
+  }));
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const matched: (TrackedHand | null)[] = current.map(() => null);
+  const used = new Set<number>();
+  for (const { from, to } of pairs) {
+    if (used.has(from) || matched[to]) continue;
+    used.add(from);
+    matched[to] = previous[from];
+  }
+  return matched;
+}
+
+// Push a frame into a history buffer and return the dominant value,
+// or null if nothing has held for enough frames yet
+function stabilize<T extends string>(history: T[], value: T, thresholds: GestureThresholds): T | null {
+  history.push(value);
+  while (history.length > thresholds.debounceWindow) {
+    history.shift();
+  }
+
+  // Count occurrences
+  const counts = history.reduce((acc, g) => {
+    acc[g] = (acc[g] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  // Find dominant value
+  const dominant = Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b) as T;
+  return counts[dominant] >= thresholds.debounceMinFrames ? dominant : null;
+}
+
+function classifyTwoHands(a: HandData, b: HandData): TwoHandGesture {
+  if (a.gesture === HandGesture.OPEN_PALM && b.gesture === HandGesture.OPEN_PALM) return TwoHandGesture.SPREAD;
+  if (a.gesture === HandGesture.FIST && b.gesture === HandGesture.FIST) return TwoHandGesture.ROTATE;
+  if ((a.gesture === HandGesture.POINT && CONFIRM_GESTURES.includes(b.gesture))
+      || (b.gesture === HandGesture.POINT && CONFIRM_GESTURES.includes(a.gesture))) {
+    return TwoHandGesture.POINT_CONFIRM;
+  }
+  return TwoHandGesture.NONE;
+}
+
+/**
+ * Turns raw MediaPipe results into the stabilized HandTrackingResult the app consumes:
+ * classification, position smoothing, gesture debouncing, two-hand and motion gestures.
+ * Has no DOM or camera dependencies, so recorded sessions can be pushed through it headlessly.
+ */
+export class HandResultProcessor {
+  private twoHandMode: boolean;
+  private thresholds: GestureThresholds;
+  private mirrored: boolean = true;
+  private prevPosition: Point = { x: 0.5, y: 0.5 };
+  private gestureHistory: HandGesture[] = [];
+  private lastEmittedGesture: HandGesture = HandGesture.NONE;
+  private trackedHands: TrackedHand[] = [];
+  private twoHandHistory: TwoHandGesture[] = [];
+  private lastTwoHandGesture: TwoHandGesture = TwoHandGesture.NONE;
+  private motionRecognizer = new MotionGestureRecognizer();
+
+  constructor(twoHandMode: boolean = false, thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS) {
+    this.twoHandMode = twoHandMode;
+    this.thresholds = thresholds;
+  }
+
+  public setTwoHandMode(enabled: boolean) {
+    this.twoHandMode = enabled;
+  }
+
+  // Mirror x like a selfie view, so moving your hand right moves the cursor right.
+  // Off for cameras that don't face the person using them.
+  public setMirrored(mirrored: boolean) {
+    this.mirrored = mirrored;
+  }
+
+  public setThresholds(thresholds: GestureThresholds) {
+    this.thresholds = thresholds;
+    this.gestureHistory = [];
+  }
+
+  /** @param time Frame timestamp in ms, used by the motion recognizer */
+  public process(results: HandResults, time: number): HandTrackingResult {
+    const allLandmarks = results.multiHandLandmarks ?? [];
+    const useTwoHands = this.twoHandMode;
+
+    // --- 0. Per-hand classification ---
+    const detected = allLandmarks.slice(0, useTwoHands ? 2 : 1).map((landmarks, i) => {
+      const classification = HandTrackingService.classifyGesture(landmarks, this.thresholds);
+      // Raw position from wrist (0) or palm center (9)
+      const palm = landmarks[9] || landmarks[0];
+      const handedness: Handedness = results.multiHandedness?.[i]?.label ?? (i === 0 ? 'Right' : 'Left');
+      return { classification, handedness, rawX: this.mirrored ? 1 - palm.x : palm.x, rawY: palm.y };
+    });
+    const isPresent = detected.length > 0;
+
+    const raw = detected.map(d => ({ x: d.rawX, y: d.rawY }));
+    const previous = matchPrevious(this.trackedHands, raw);
+    const hands: HandData[] = detected.map((d, i) => {
+      const position = smooth(previous[i]?.smoothed ?? raw[i], d.rawX, d.rawY);
+      return {
+        handedness: d.handedness,
+        gesture: d.classification.gesture,
+        position,
+        confidence: d.classification.confidence
+      };
+    });
+    this.trackedHands = hands.map((hand, i) => ({ raw: raw[i], smoothed: hand.position }));
+
+    // --- 1. Two-hand gestures (debounced like single gestures) ---
+    let twoHand: TwoHandData | undefined;
+    if (useTwoHands && hands.length === 2) {
+      const stable = stabilize(this.twoHandHistory, classifyTwoHands(hands[0], hands[1]), this.thresholds);
+      if (stable) this.lastTwoHandGesture = stable;
+
+      const [left, right] = hands[0].position.x <= hands[1].position.x ? hands : [hands[1], hands[0]];
+      twoHand = {
+        gesture: this.lastTwoHandGesture,
+        distance: Math.hypot(right.position.x - left.position.x, right.position.y - left.position.y),
+        angle: Math.atan2(right.position.y - left.position.y, right.position.x - left.position.x)
+      };
+    } else {
+      this.twoHandHistory = [];
+      this.lastTwoHandGesture = TwoHandGesture.NONE;
+    }
+
+    // The pointing hand drives selection while confirming; otherwise the first hand does
+    let primaryIndex = 0;
+    if (twoHand?.gesture === TwoHandGesture.POINT_CONFIRM) {
+      primaryIndex = Math.max(0, detected.findIndex(d => d.classification.gesture === HandGesture.POINT));
+    }
+    const primary = detected[primaryIndex];
+    const gesture = primary?.classification.gesture ?? HandGesture.NONE;
+    const scores: GestureScores = primary?.classification.scores ?? {};
+
+    // --- 2. Position Smoothing (Lerp) ---
+    if (primary) {
+      this.prevPosition = smooth(this.prevPosition, primary.rawX, primary.rawY);
+    }
+
+    // --- 3. Motion gestures from the smoothed trajectory ---
+    // Skipped while both hands are manipulating so a two-hand spin isn't read as a swipe
+    let motion = MotionGesture.NONE;
+    if (primary && (!twoHand || twoHand.gesture === TwoHandGesture.NONE)) {
+      motion = this.motionRecognizer.push(this.prevPosition, time);
+    } else {
+      this.motionRecognizer.reset();
+    }
+
+    // --- 4. Gesture Debouncing ---
+    // We keep a small history buffer to prevent flickering between states
+    if (isPresent) {
+      const stable = stabilize(this.gestureHistory, gesture, this.thresholds);
+      if (stable) {
+        this.lastEmittedGesture = stable;
+      }
+    } else {
+      // Clear history quickly if hand is lost so we don't get stuck
+      this.gestureHistory = [];
+      this.lastEmittedGesture = HandGesture.NONE;
+      this.trackedHands = [];
+    }
+
+    // Stabilized result
+    return {
+      gesture: this.lastEmittedGesture,
+      position: this.prevPosition,
+      isPresent,
+      confidence: scores[this.lastEmittedGesture] ?? 0,
+      scores,
+      ...(useTwoHands ? { hands, twoHand } : {}),
+      ...(motion !== MotionGesture.NONE ? { motion } : {})
+    };
+  }
+}
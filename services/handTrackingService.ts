@@ -1,80 +1,377 @@
-import pkg from '@mediapipe/hands';
-import { HandGesture } from '../types';
+import { AdaptiveFrameScheduler } from './adaptiveFrameScheduler';
+import { cameraApiStatus, cameraErrorStatus, listCameras } from './cameraDevices';
+import {
+  CameraSettings,
+  CameraStatus,
+  GestureClassification,
+  GestureScores,
+  GestureThresholds,
+  HandGesture,
+  HandMeasurement,
+  HandResults,
+  HandResultsSource,
+  Landmark,
+  PerformanceStats
+} from '../types';
+import { CAMERA_RESOLUTIONS, DEFAULT_CAMERA_SETTINGS, DEFAULT_GESTURE_THRESHOLDS, MEDIAPIPE_ASSET_BASE } from '../constants';
 
-// Robust extraction of the Hands class from the imported package
-// Handles various ESM/CJS interop structures provided by CDNs
-const Hands = (pkg as any)?.Hands || (pkg as any)?.default?.Hands || (window as any)?.Hands;
+// Absolute, so the worker resolves it the same way regardless of where its own script is served from
+const assetBaseUrl = () => new URL(MEDIAPIPE_ASSET_BASE, location.href).href;
 
-export class HandTrackingService {
+// MediaPipe's hands.js is a plain script that registers a global rather than an ES module,
+// so the main-thread fallback loads it from the asset base just like the worker does
+let handsScriptPromise: Promise<any> | null = null;
+const loadHandsScript = (): Promise<any> => {
+  if ((window as any).Hands) return Promise.resolve((window as any).Hands);
+  if (!handsScriptPromise) {
+    handsScriptPromise = new Promise((resolve) => {
+      const script = document.createElement('script');
+      script.src = `${assetBaseUrl()}hands.js`;
+      script.crossOrigin = 'anonymous';
+      script.onload = () => resolve((window as any).Hands ?? null);
+      script.onerror = () => {
+        handsScriptPromise = null;
+        resolve(null);
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return handsScriptPromise;
+};
+
+// Per-user tuning lives in GestureThresholds; this one is fixed
+const MIN_GESTURE_CONFIDENCE = 0.5;
+
+// [tip, pip] landmark indices for index, middle, ring, pinky
+const FINGER_JOINTS: [number, number][] = [[8, 6], [12, 10], [16, 14], [20, 18]];
+
+const dist = (p1: any, p2: any) => Math.hypot(p1.x - p2.x, p1.y - p2.y);
+
+const GESTURE_PRIORITY: HandGesture[] = [
+  HandGesture.TWO_FINGERS,
+  HandGesture.POINT,
+  HandGesture.OK,
+  HandGesture.PINCH,
+  HandGesture.THUMBS_UP,
+  HandGesture.FIST,
+  HandGesture.OPEN_PALM,
+];
+
+// Worker inference needs to grab frames as transferable bitmaps
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+const WORKER_INIT_TIMEOUT_MS = 15000;
+const WORKER_STALL_MS = 1000; // Treat a frame as lost if the worker hasn't answered by then
+const MAX_WORKER_SEND_FAILURES = 10; // In a row, before giving up on the worker
+
+export class HandTrackingService implements HandResultsSource {
   private hands: any;
+  private worker: Worker | null = null;
   private videoElement: HTMLVideoElement;
+  private onResults: (results: HandResults) => void;
+  private maxNumHands: number;
+  private stats: PerformanceStats;
+  private camera: CameraSettings;
+  private onStatus: (status: CameraStatus) => void;
+  private scheduler = new AdaptiveFrameScheduler();
   private animationFrameId: number | null = null;
   private stream: MediaStream | null = null;
   private isRunning: boolean = false;
   private lastProcessTime: number = 0;
+  private workerFrameInFlight: boolean = false;
+  private workerSendFailures: number = 0;
+  private cameraStarted: boolean = false;
+  private activeDeviceId: string | null = null;
+  private openGeneration: number = 0; // Lets a newer openCamera() call supersede one still in flight
 
-  constructor(videoElement: HTMLVideoElement, onResults: (results: any) => void) {
+  constructor(
+    videoElement: HTMLVideoElement,
+    onResults: (results: HandResults) => void,
+    maxNumHands: number = 1,
+    stats?: PerformanceStats,
+    camera: CameraSettings = DEFAULT_CAMERA_SETTINGS,
+    onStatus: (status: CameraStatus) => void = () => {}
+  ) {
     this.videoElement = videoElement;
+    this.onResults = onResults;
+    this.maxNumHands = maxNumHands;
+    this.camera = camera;
+    this.onStatus = onStatus;
+    this.stats = stats ?? {
+      renderFps: 0,
+      inferenceFps: 0,
+      inferenceLatencyMs: 0,
+      inferenceIntervalMs: 0,
+      inferenceMode: 'off',
+      qualityTier: 'high',
+      qualityAuto: true,
+      photoTextureBytes: 0
+    };
+  }
+
+  // Preferred path: MediaPipe in a worker, frames posted as ImageBitmaps
+  private initWorker(): Promise<boolean> {
+    if (!canUseWorker()) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      let settled = false;
+      const settle = (ok: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (!ok) {
+          this.worker?.terminate();
+          this.worker = null;
+        }
+        resolve(ok);
+      };
+      const timeout = setTimeout(() => settle(false), WORKER_INIT_TIMEOUT_MS);
+
+      try {
+        this.worker = new Worker(new URL('./handInference.worker.ts', import.meta.url));
+      } catch (e) {
+        console.warn("Failed to start inference worker:", e);
+        settle(false);
+        return;
+      }
+
+      this.worker.onmessage = (event: MessageEvent) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          settle(true);
+        } else if (message.type === 'results') {
+          this.workerFrameInFlight = false;
+          this.workerSendFailures = 0;
+          this.recordInference(performance.now() - message.sentAt);
+          this.onResults(message.results);
+        } else if (message.type === 'dropped') {
+          // The worker was still busy with an earlier frame; that frame's results clear the in-flight flag
+        } else if (message.type === 'send-failed') {
+          // Like the main thread's ephemeral send errors, skip the frame unless it keeps happening
+          this.workerFrameInFlight = false;
+          if (++this.workerSendFailures >= MAX_WORKER_SEND_FAILURES) {
+            this.fallBackToMainThread(message.message);
+          }
+        } else if (message.type === 'error') {
+          if (!settled) {
+            console.warn("Inference worker failed to initialize, using main thread:", message.message);
+            settle(false);
+          } else {
+            this.fallBackToMainThread(message.message);
+          }
+        }
+      };
+      this.worker.onerror = (e) => {
+        if (!settled) settle(false);
+        else this.fallBackToMainThread(e.message);
+      };
+
+      this.worker.postMessage({ type: 'init', assetBase: assetBaseUrl(), maxNumHands: this.maxNumHands });
+    });
+  }
+
+  private fallBackToMainThread(reason: string) {
+    console.warn("Inference worker error, switching to main thread:", reason);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFrameInFlight = false;
+    this.workerSendFailures = 0;
+    this.initMainThread().then((ok) => {
+      if (!ok) {
+        this.stats.inferenceMode = 'off';
+        return;
+      }
+      // The frame loop stopped when the worker went away; restart it on the new backend
+      if (this.isRunning && this.cameraStarted) {
+        if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+        this.processFrame();
+      }
+    });
+  }
 
+  // Fallback path: MediaPipe on the main thread, sharing time with rendering
+  private async initMainThread(): Promise<boolean> {
+    const Hands = await loadHandsScript();
     // Fail silently instead of crashing the app if MediaPipe didn't load
     if (!Hands) {
       console.warn("MediaPipe Hands not found. Hand tracking will be disabled.");
-      return;
+      return false;
     }
 
     try {
         this.hands = new Hands({
           locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
+            return `${assetBaseUrl()}${file}`;
           }
         });
 
         this.hands.setOptions({
-          maxNumHands: 1,
+          maxNumHands: this.maxNumHands,
           modelComplexity: 0, // Lite model for performance
           minDetectionConfidence: 0.5,
           minTrackingConfidence: 0.5
         });
 
-        this.hands.onResults(onResults);
+        this.hands.onResults(this.onResults);
+        this.stats.inferenceMode = 'main-thread';
+        return true;
     } catch (e) {
         console.warn("Failed to initialize MediaPipe instance:", e);
         this.hands = null;
+        return false;
     }
   }
 
+  private recordInference(latencyMs: number) {
+    this.scheduler.recordInference(latencyMs, this.stats.renderFps);
+    this.stats.inferenceLatencyMs = this.scheduler.latencyMs;
+    this.stats.inferenceFps = this.scheduler.inferenceFps;
+    this.stats.inferenceIntervalMs = this.scheduler.intervalMs;
+  }
+
   public async start() {
-    if (this.isRunning || !this.hands) return; // Don't start if no hands instance
+    if (this.isRunning) return;
+
+    // Check if browser supports getUserMedia before downloading the model
+    const unavailable = cameraApiStatus();
+    if (unavailable) {
+      console.warn("Camera API not available:", unavailable);
+      this.onStatus(unavailable);
+      return;
+    }
     this.isRunning = true;
+    this.onStatus('loading');
 
-    try {
-      // Check if browser supports getUserMedia
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-         console.warn("Camera API not available (Non-secure context?)");
-         return;
+    const workerReady = await this.initWorker();
+    // stop() may have been called while the worker was loading
+    if (!this.isRunning) return;
+
+    if (workerReady) {
+      this.stats.inferenceMode = 'worker';
+    } else {
+      const mainThreadReady = await this.initMainThread();
+      if (!this.isRunning) return;
+      if (!mainThreadReady) {
+        // Don't start if no hands instance
+        this.isRunning = false;
+        this.onStatus('tracking-unavailable');
+        return;
       }
+    }
+
+    this.cameraStarted = true;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    // Keep running even if no camera opened yet: plugging one in triggers devicechange
+    await this.openCamera();
+    if (this.isRunning) this.processFrame();
+  }
+
+  // Opens the configured camera, falling back to any camera if that one has gone away
+  private async openCamera(): Promise<boolean> {
+    const generation = ++this.openGeneration;
+    this.closeStream();
+    this.onStatus('loading');
+
+    const { width, height } = CAMERA_RESOLUTIONS[this.camera.resolution];
+    const size = { width: { ideal: width }, height: { ideal: height } };
+    const attempts: MediaTrackConstraints[] = this.camera.deviceId
+      ? [{ ...size, deviceId: { exact: this.camera.deviceId } }, { ...size, facingMode: 'user' }]
+      : [{ ...size, facingMode: 'user' }];
 
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-          facingMode: 'user'
+    let lastError: unknown = null;
+    for (const video of attempts) {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video });
+        if (generation !== this.openGeneration || !this.isRunning) {
+          stream.getTracks().forEach(track => track.stop());
+          return false;
+        }
+        this.attachStream(stream);
+
+        try {
+          await this.videoElement.play();
+        } catch (e) {
+          // Superseded by a newer stream, or autoplay blocked; the preview is muted so the latter is rare
+          if (generation !== this.openGeneration) return false;
+          console.warn("Play failed", e);
         }
-      });
+        this.onStatus('ready');
+        return true;
+      } catch (err) {
+        lastError = err;
+        // Another device won't help if the user said no
+        if (cameraErrorStatus(err) === 'permission-denied') break;
+      }
+    }
+
+    if (generation !== this.openGeneration) return false;
+    console.warn("Error initializing camera (Hand tracking disabled):", lastError);
+    this.onStatus(cameraErrorStatus(lastError));
+    return false;
+  }
+
+  private attachStream(stream: MediaStream) {
+    this.stream = stream;
+    this.videoElement.srcObject = stream;
+
+    const [track] = stream.getVideoTracks();
+    this.activeDeviceId = track?.getSettings().deviceId ?? null;
+    if (track) {
+      // Fires when the camera is unplugged or revoked mid-session
+      track.onended = () => {
+        if (this.stream === stream && this.isRunning) this.openCamera();
+      };
+    }
+  }
+
+  private closeStream() {
+    if (!this.stream) return;
+    this.stream.getTracks().forEach(track => {
+      track.onended = null;
+      track.stop();
+    });
+    this.stream = null;
+    this.activeDeviceId = null;
+    this.videoElement.srcObject = null;
+  }
 
-      this.videoElement.srcObject = this.stream;
+  private handleDeviceChange = async () => {
+    if (!this.isRunning) return;
+    const cameras = await listCameras();
+    const ids = cameras.map(camera => camera.deviceId);
 
-      await new Promise<void>((resolve) => {
-        this.videoElement.onloadedmetadata = () => {
-          this.videoElement.play().then(() => resolve()).catch(e => console.warn("Play failed", e));
-        };
-      });
+    const isLive = !!this.stream?.getVideoTracks().some(track => track.readyState === 'live');
+    const activeGone = !isLive || (this.activeDeviceId !== null && ids.length > 0 && !ids.includes(this.activeDeviceId));
+    // The preferred camera was plugged back in while we were on a fallback
+    const preferredReturned = !!this.camera.deviceId && this.camera.deviceId !== this.activeDeviceId
+      && ids.includes(this.camera.deviceId);
+
+    if (activeGone && cameras.length === 0) {
+      this.closeStream();
+      this.onStatus('no-camera');
+    } else if (activeGone || preferredReturned) {
+      this.openCamera();
+    }
+  };
 
-      this.processFrame();
-    } catch (err) {
-      console.warn("Error initializing camera (Hand tracking disabled):", err);
-      // Do not re-throw, just stop running to keep the 3D scene alive
-      this.isRunning = false;
+  // Change camera, resolution or mirroring without restarting inference
+  public setCamera(camera: CameraSettings) {
+    const needsReopen = camera.deviceId !== this.camera.deviceId || camera.resolution !== this.camera.resolution;
+    this.camera = camera;
+    if (needsReopen && this.isRunning && this.cameraStarted) {
+      this.openCamera();
+    }
+  }
+
+  // Switch between single and two-hand tracking without restarting the camera
+  public setMaxNumHands(maxNumHands: number) {
+    this.maxNumHands = maxNumHands;
+    try {
+      this.worker?.postMessage({ type: 'options', maxNumHands });
+      this.hands?.setOptions({ maxNumHands });
+    } catch (e) {
+      console.warn("Failed to update hand count:", e);
     }
   }
 
@@ -83,10 +380,15 @@ export class HandTrackingService {
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
     }
-    if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop());
-      this.stream = null;
+    this.openGeneration++;
+    navigator.mediaDevices?.removeEventListener('devicechange', this.handleDeviceChange);
+    this.closeStream();
+    if (this.worker) {
+      this.worker.postMessage({ type: 'close' });
+      this.worker.terminate();
+      this.worker = null;
     }
+    this.stats.inferenceMode = 'off';
     
     try {
         if (this.hands && typeof this.hands.close === 'function') {
@@ -98,20 +400,30 @@ export class HandTrackingService {
   }
 
   private processFrame = async () => {
-    if (!this.isRunning || !this.hands) return;
+    if (!this.isRunning || (!this.worker && !this.hands)) return;
 
     const now = performance.now();
-    if (now - this.lastProcessTime < 33) { 
+    // The worker answers asynchronously; wait for it unless it seems to have dropped the frame
+    const waitingOnWorker = this.workerFrameInFlight && now - this.lastProcessTime < WORKER_STALL_MS;
+    if (waitingOnWorker || now - this.lastProcessTime < this.scheduler.intervalMs) {
       this.animationFrameId = requestAnimationFrame(this.processFrame);
       return;
     }
 
     if (this.videoElement.readyState >= 2) { 
+      this.lastProcessTime = now;
       try {
-        await this.hands.send({ image: this.videoElement });
-        this.lastProcessTime = performance.now();
+        if (this.worker) {
+          const bitmap = await createImageBitmap(this.videoElement);
+          this.workerFrameInFlight = true;
+          this.worker?.postMessage({ type: 'frame', bitmap, sentAt: now }, [bitmap]);
+        } else {
+          await this.hands.send({ image: this.videoElement });
+          this.recordInference(performance.now() - now);
+        }
       } catch (e) {
         // Suppress ephemeral send errors
+        this.workerFrameInFlight = false;
       }
     }
 
@@ -120,35 +432,81 @@ export class HandTrackingService {
     }
   };
 
-  public static detectGesture(landmarks: any[]): HandGesture {
-    if (!landmarks || landmarks.length === 0) return HandGesture.NONE;
-    
-    const dist = (p1: any, p2: any) => Math.hypot(p1.x - p2.x, p1.y - p2.y);
+  public static detectGesture(landmarks: Landmark[], thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS): HandGesture {
+    return HandTrackingService.classifyGesture(landmarks, thresholds).gesture;
+  }
+
+  // Scores every known pose from the 21 landmarks and picks the most confident one.
+  // Returns NONE when nothing is convincing instead of guessing.
+  public static classifyGesture(landmarks: any[], thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS): GestureClassification {
+    if (!landmarks || landmarks.length < 21) {
+      return { gesture: HandGesture.NONE, confidence: 0, scores: {} };
+    }
+
+    const scores = HandTrackingService.scoreGestures(landmarks, thresholds);
+
+    let gesture = HandGesture.NONE;
+    let confidence = 0;
+    // Ordered from most to least specific so ties favour the more deliberate pose
+    for (const candidate of GESTURE_PRIORITY) {
+      const score = scores[candidate] ?? 0;
+      if (score > confidence) {
+        gesture = candidate;
+        confidence = score;
+      }
+    }
+
+    if (confidence < MIN_GESTURE_CONFIDENCE) {
+      return { gesture: HandGesture.NONE, confidence, scores };
+    }
+    return { gesture, confidence, scores };
+  }
+
+  // The scale-independent numbers everything else is derived from (also what calibration fits against)
+  public static measureHand(landmarks: Landmark[]): HandMeasurement {
     const wrist = landmarks[0];
-    const isFingerFolded = (tipIdx: number, pipIdx: number) => {
-        const dTip = dist(landmarks[tipIdx], wrist);
-        const dPip = dist(landmarks[pipIdx], wrist);
-        return dTip < dPip * 1.1; 
+    // Wrist to middle knuckle, used to make distances independent of hand size / camera distance
+    const palmSize = dist(wrist, landmarks[9]) || 1;
+    const fingerRatios = FINGER_JOINTS.map(([tip, pip]) =>
+      dist(landmarks[tip], wrist) / (dist(landmarks[pip], wrist) || 1)
+    ) as HandMeasurement['fingerRatios'];
+
+    return {
+      fingerRatios,
+      pinchDistance: dist(landmarks[4], landmarks[8]) / palmSize
     };
+  }
 
-    const isIndexFolded = isFingerFolded(8, 6);
-    const isMiddleFolded = isFingerFolded(12, 10);
-    const isRingFolded = isFingerFolded(16, 14);
-    const isPinkyFolded = isFingerFolded(20, 18);
+  public static scoreGestures(landmarks: any[], thresholds: GestureThresholds = DEFAULT_GESTURE_THRESHOLDS): GestureScores {
+    const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+    const palmSize = dist(landmarks[0], landmarks[9]) || 1;
+    const { fingerRatios, pinchDistance } = HandTrackingService.measureHand(landmarks);
 
-    if (!isIndexFolded && !isMiddleFolded && isRingFolded && isPinkyFolded) {
-        return HandGesture.TWO_FINGERS;
-    }
+    // 0 = fully folded, 1 = fully extended, 0.5 at the finger's fold threshold
+    const [index, middle, ring, pinky] = fingerRatios.map((ratio, f) =>
+      clamp01((ratio - thresholds.foldRatios[f]) / thresholds.extensionRange + 0.5)
+    );
+    const folded = (ext: number) => 1 - ext;
 
-    let foldedCount = 0;
-    if (isIndexFolded) foldedCount++;
-    if (isMiddleFolded) foldedCount++;
-    if (isRingFolded) foldedCount++;
-    if (isPinkyFolded) foldedCount++;
+    // Thumb tip clearly above its own knuckle and the index knuckle (image y grows downwards)
+    const thumbUp = clamp01((landmarks[5].y - landmarks[4].y) / palmSize / 0.6)
+                  * clamp01((landmarks[2].y - landmarks[4].y) / palmSize / 0.4);
 
-    if (foldedCount >= 3) return HandGesture.FIST;
-    if (foldedCount <= 1) return HandGesture.OPEN_PALM;
+    // Thumb and index tips touching
+    const pinch = clamp01((thresholds.pinchRelease - pinchDistance) / (thresholds.pinchRelease - thresholds.pinchContact));
 
-    return HandGesture.OPEN_PALM; 
+    const othersFolded = (folded(middle) + folded(ring) + folded(pinky)) / 3;
+    const othersExtended = (middle + ring + pinky) / 3;
+
+    return {
+      [HandGesture.TWO_FINGERS]: Math.min(index, middle, folded(ring), folded(pinky)),
+      [HandGesture.POINT]: Math.min(index, folded(middle), folded(ring), folded(pinky), 1 - pinch),
+      [HandGesture.OK]: Math.min(pinch, othersExtended),
+      // A pinching index is only half curled; a fully curled one is part of a fist
+      [HandGesture.PINCH]: Math.min(pinch, othersFolded, clamp01(index * 2)),
+      [HandGesture.THUMBS_UP]: Math.min(thumbUp, folded(index), othersFolded),
+      [HandGesture.FIST]: Math.min((folded(index) + othersFolded * 3) / 4, 1 - thumbUp),
+      [HandGesture.OPEN_PALM]: Math.min((index + othersExtended * 3) / 4, 1 - pinch),
+    };
   }
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+const DB_NAME = 'otman';
+// v2: added the tracks store
+const DB_VERSION = 2;
+
+export const PHOTO_STORE = 'photos';
+export const TRACK_STORE = 'tracks';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the app's database, creating any missing stores. Shared by every library so
+ * upgrades happen in one place; resolves to null when IndexedDB is unavailable.
+ */
+export function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  if (typeof indexedDB === 'undefined') {
+    console.warn("IndexedDB not available. Uploads will not be persisted.");
+    dbPromise = Promise.resolve(null);
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve) => {
+    let blocked = false;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of [PHOTO_STORE, TRACK_STORE]) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store, { keyPath: 'id' });
+        }
+      }
+    };
+    // An older version is still open in another tab; carry on without persistence rather than hang
+    request.onblocked = () => {
+      console.warn("Database upgrade blocked by another open tab. Close it and reload to keep uploads.");
+      blocked = true;
+      dbPromise = null; // Try again on the next call
+      resolve(null);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        db.close(); // Already gave up on this request; the next call reopens
+        return;
+      }
+      // Let a newer version open in another tab instead of blocking its upgrade
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      console.warn("Failed to open database:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+// Wrap a single IDBRequest in a promise
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolves once every request queued on the transaction has been committed
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
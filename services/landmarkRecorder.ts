@@ -0,0 +1,53 @@
+import { HandResults, LandmarkRecording } from '../types';
+
+/**
+ * Captures raw MediaPipe results with timestamps so a session can be replayed later.
+ * Only the landmark data is kept; the camera image is dropped.
+ */
+export class LandmarkRecorder {
+  private recording: LandmarkRecording | null = null;
+  private startTime: number = 0;
+
+  public get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  public start() {
+    this.startTime = performance.now();
+    this.recording = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      frames: []
+    };
+  }
+
+  public capture(results: HandResults) {
+    if (!this.recording) return;
+    this.recording.frames.push({
+      t: Math.round(performance.now() - this.startTime),
+      multiHandLandmarks: (results.multiHandLandmarks ?? []).map(hand =>
+        hand.map(({ x, y, z }) => ({ x, y, z }))
+      ),
+      multiHandedness: (results.multiHandedness ?? []).map(({ label, score }) => ({ label, score }))
+    });
+  }
+
+  /** Ends the session and returns everything captured since start(). */
+  public stop(): LandmarkRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+
+  public static toBlob(recording: LandmarkRecording): Blob {
+    return new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  }
+
+  public static async fromFile(file: Blob): Promise<LandmarkRecording> {
+    const parsed = JSON.parse(await file.text());
+    if (!parsed || !Array.isArray(parsed.frames)) {
+      throw new Error("Not a landmark recording");
+    }
+    return parsed as LandmarkRecording;
+  }
+}
@@ -0,0 +1,62 @@
+import { HandResultProcessor } from './handResultProcessor';
+import { HandResults, HandResultsSource, HandTrackingResult, LandmarkRecording } from '../types';
+
+/**
+ * Plays a recorded session back through the same onResults callback the camera uses,
+ * honouring the original frame timing. Loops by default so a kiosk demo can run unattended.
+ */
+export class LandmarkReplayService implements HandResultsSource {
+  private recording: LandmarkRecording;
+  private onResults: (results: HandResults) => void;
+  private loop: boolean;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isRunning: boolean = false;
+
+  constructor(recording: LandmarkRecording, onResults: (results: HandResults) => void, loop: boolean = true) {
+    this.recording = recording;
+    this.onResults = onResults;
+    this.loop = loop;
+  }
+
+  public async start() {
+    if (this.isRunning || this.recording.frames.length === 0) return;
+    this.isRunning = true;
+    this.playFrom(0);
+  }
+
+  public stop() {
+    this.isRunning = false;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  private playFrom(index: number) {
+    if (!this.isRunning) return;
+
+    const frames = this.recording.frames;
+    if (index >= frames.length) {
+      if (this.loop) {
+        this.playFrom(0);
+      } else {
+        this.isRunning = false;
+      }
+      return;
+    }
+
+    this.onResults(frames[index]);
+
+    const next = frames[index + 1];
+    const wait = next ? Math.max(0, next.t - frames[index].t) : 0;
+    this.timeoutId = setTimeout(() => this.playFrom(index + 1), wait);
+  }
+
+  /**
+   * Runs a recording through a processor synchronously, using the recorded timestamps.
+   * Lets gesture classification, smoothing and debouncing be checked without a camera or timers.
+   */
+  public static runHeadless(recording: LandmarkRecording, processor = new HandResultProcessor()): HandTrackingResult[] {
+    return recording.frames.map(frame => processor.process(frame, frame.t));
+  }
+}
@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+import { Theme, ThemeMaterial } from '../types';
+
+// Easing rate per second: a theme switch is mostly done after about a second
+const TRANSITION_RATE = 2.5;
+
+export interface LiveMaterial {
+  color: THREE.Color;
+  emissive: THREE.Color;
+  metalness: number;
+  roughness: number;
+  emissiveIntensity: number;
+}
+
+interface MaterialTarget {
+  color: THREE.Color;
+  emissive: THREE.Color;
+  params: ThemeMaterial;
+}
+
+const liveMaterial = (): LiveMaterial => ({
+  color: new THREE.Color(),
+  emissive: new THREE.Color(),
+  metalness: 0,
+  roughness: 0,
+  emissiveIntensity: 0
+});
+
+/**
+ * The scene's current look, eased towards a target theme every frame.
+ * Materials, lights and post-processing copy from here, so switching themes
+ * animates in place without recreating anything.
+ */
+export class LiveTheme {
+  public readonly primary = new THREE.Color();
+  public readonly secondary = new THREE.Color();
+  public readonly background = new THREE.Color();
+  public readonly fog = new THREE.Color();
+  public readonly sphere = liveMaterial();
+  public readonly cube = liveMaterial();
+  public readonly cylinder = liveMaterial();
+  public bloomIntensity = 0;
+
+  // Parsed once per theme change rather than every frame
+  private target = {
+    primary: new THREE.Color(),
+    secondary: new THREE.Color(),
+    background: new THREE.Color(),
+    fog: new THREE.Color(),
+    bloomIntensity: 0,
+    sphere: null as MaterialTarget | null,
+    cube: null as MaterialTarget | null,
+    cylinder: null as MaterialTarget | null
+  };
+
+  constructor(theme: Theme) {
+    this.setTarget(theme);
+    this.update(Infinity); // Start settled
+  }
+
+  public setTarget(theme: Theme) {
+    const { palette, materials } = theme;
+    this.target.primary.set(palette.primary);
+    this.target.secondary.set(palette.secondary);
+    this.target.background.set(palette.background);
+    this.target.fog.set(palette.fog);
+    this.target.bloomIntensity = theme.bloomIntensity;
+
+    const material = (color: string, params: ThemeMaterial): MaterialTarget => ({
+      color: new THREE.Color(color),
+      emissive: new THREE.Color(params.emissive),
+      params
+    });
+    this.target.sphere = material(palette.primary, materials.sphere);
+    this.target.cube = material(palette.tertiary, materials.cube);
+    this.target.cylinder = material(palette.secondary, materials.cylinder);
+  }
+
+  /** Eases every value towards the target; frame-rate independent. */
+  public update(delta: number) {
+    const t = 1 - Math.exp(-delta * TRANSITION_RATE);
+    const target = this.target;
+
+    this.primary.lerp(target.primary, t);
+    this.secondary.lerp(target.secondary, t);
+    this.background.lerp(target.background, t);
+    this.fog.lerp(target.fog, t);
+    this.bloomIntensity += (target.bloomIntensity - this.bloomIntensity) * t;
+
+    const step = (live: LiveMaterial, to: MaterialTarget | null) => {
+      if (!to) return;
+      live.color.lerp(to.color, t);
+      live.emissive.lerp(to.emissive, t);
+      live.metalness += (to.params.metalness - live.metalness) * t;
+      live.roughness += (to.params.roughness - live.roughness) * t;
+      live.emissiveIntensity += (to.params.emissiveIntensity - live.emissiveIntensity) * t;
+    };
+    step(this.sphere, target.sphere);
+    step(this.cube, target.cube);
+    step(this.cylinder, target.cylinder);
+  }
+}
@@ -0,0 +1,97 @@
+import { MotionGesture } from '../types';
+
+// All distances are in normalized screen units (0-1), times in ms
+const SWIPE_WINDOW_MS = 400;
+const SWIPE_MIN_DISTANCE = 0.12;
+const SWIPE_MIN_SPEED = 0.4;      // Units per second
+const SWIPE_AXIS_DOMINANCE = 2;   // Main axis must be this many times the cross axis
+const STIR_WINDOW_MS = 1500;
+const STIR_MIN_RADIUS = 0.03;
+const STIR_MIN_TURN = Math.PI * 1.6; // Most of a full circle
+const COOLDOWN_MS = 700;
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+/**
+ * Detects swipes and circular "stir" motions from a stream of palm positions.
+ * Feed it the smoothed position once per tracking frame; it reports each motion once,
+ * then ignores input for a short cooldown so one sweep doesn't fire twice.
+ */
+export class MotionGestureRecognizer {
+  private samples: Sample[] = [];
+  private cooldownUntil: number = 0;
+
+  public push(position: { x: number; y: number }, time: number): MotionGesture {
+    this.samples.push({ x: position.x, y: position.y, t: time });
+    while (this.samples.length > 0 && time - this.samples[0].t > STIR_WINDOW_MS) {
+      this.samples.shift();
+    }
+
+    if (time < this.cooldownUntil) return MotionGesture.NONE;
+
+    const motion = this.detectSwipe(time);
+    const result = motion !== MotionGesture.NONE ? motion : this.detectStir();
+
+    if (result !== MotionGesture.NONE) {
+      this.samples = [];
+      this.cooldownUntil = time + COOLDOWN_MS;
+    }
+    return result;
+  }
+
+  public reset() {
+    this.samples = [];
+  }
+
+  private detectSwipe(time: number): MotionGesture {
+    const recent = this.samples.filter(s => time - s.t <= SWIPE_WINDOW_MS);
+    if (recent.length < 3) return MotionGesture.NONE;
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    const seconds = Math.max((last.t - first.t) / 1000, 0.001);
+
+    if (Math.abs(dx) > SWIPE_MIN_DISTANCE
+        && Math.abs(dx) > Math.abs(dy) * SWIPE_AXIS_DOMINANCE
+        && Math.abs(dx) / seconds > SWIPE_MIN_SPEED) {
+      return dx > 0 ? MotionGesture.SWIPE_RIGHT : MotionGesture.SWIPE_LEFT;
+    }
+    if (Math.abs(dy) > SWIPE_MIN_DISTANCE
+        && Math.abs(dy) > Math.abs(dx) * SWIPE_AXIS_DOMINANCE
+        && Math.abs(dy) / seconds > SWIPE_MIN_SPEED) {
+      // Screen y grows downwards
+      return dy > 0 ? MotionGesture.SWIPE_DOWN : MotionGesture.SWIPE_UP;
+    }
+    return MotionGesture.NONE;
+  }
+
+  private detectStir(): MotionGesture {
+    if (this.samples.length < 8) return MotionGesture.NONE;
+
+    const cx = this.samples.reduce((sum, s) => sum + s.x, 0) / this.samples.length;
+    const cy = this.samples.reduce((sum, s) => sum + s.y, 0) / this.samples.length;
+    const radius = this.samples.reduce((sum, s) => sum + Math.hypot(s.x - cx, s.y - cy), 0) / this.samples.length;
+    if (radius < STIR_MIN_RADIUS) return MotionGesture.NONE;
+
+    // Sum the angle swept around the centroid between consecutive samples
+    let turn = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const a0 = Math.atan2(this.samples[i - 1].y - cy, this.samples[i - 1].x - cx);
+      const a1 = Math.atan2(this.samples[i].y - cy, this.samples[i].x - cx);
+      let da = a1 - a0;
+      if (da > Math.PI) da -= Math.PI * 2;
+      if (da < -Math.PI) da += Math.PI * 2;
+      turn += da;
+    }
+
+    if (Math.abs(turn) < STIR_MIN_TURN) return MotionGesture.NONE;
+    // With y pointing down, a growing angle is clockwise on screen
+    return turn > 0 ? MotionGesture.STIR_CW : MotionGesture.STIR_CCW;
+  }
+}
@@ -0,0 +1,292 @@
+import { loadSetting, saveSetting } from './settingsStorage';
+import { PlaybackSettings, RepeatMode, Track } from '../types';
+import { DEFAULT_PLAYBACK_SETTINGS } from '../constants';
+
+const PLAYBACK_SETTING_KEY = 'playback';
+const CROSSFADE_SECONDS = 3;
+const FADE_STEP_MS = 50; // A timer rather than rAF so fades still finish in background tabs
+const RESTART_THRESHOLD = 3; // previous() restarts the current track once it's this many seconds in
+const DUCK_GAIN = 0.15; // Share of the volume left while something else is playing sound
+const DUCK_SECONDS = 0.5;
+
+export interface MusicPlayerState {
+  track: Track | null;
+  isPlaying: boolean;
+}
+
+function shuffled<T>(array: T[]): T[] {
+  const arr = [...array];
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+/**
+ * Plays a playlist on two alternating audio elements so each track can crossfade into the next.
+ * Shuffle is a fresh random order each time it's turned on or the playlist changes,
+ * always starting from the current track.
+ */
+export class MusicPlayer {
+  public readonly decks: [HTMLAudioElement, HTMLAudioElement];
+
+  private active = 0; // Which deck is (or will be) audible
+  private tracks: Track[] = [];
+  private order: number[] = []; // Playback order, as indices into tracks
+  private position = 0; // Index into order
+  private playing = false;
+  private settings: PlaybackSettings;
+  private fadeTimer: ReturnType<typeof setInterval> | null = null;
+  private duckGain = 1;
+  private duckTarget = 1;
+  private duckTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(settings: PlaybackSettings, private onChange: (state: MusicPlayerState) => void) {
+    this.settings = { ...settings };
+    this.decks = [this.createDeck(), this.createDeck()];
+  }
+
+  private createDeck(): HTMLAudioElement {
+    const deck = new Audio();
+    deck.crossOrigin = 'anonymous'; // Needed for the analyser to read streamed tracks
+    deck.preload = 'auto';
+    deck.addEventListener('timeupdate', () => this.handleTimeUpdate(deck));
+    deck.addEventListener('ended', () => this.handleEnded(deck));
+    return deck;
+  }
+
+  private get currentDeck() {
+    return this.decks[this.active];
+  }
+
+  // Volume the audible deck should be at, ducking included
+  private get level() {
+    return this.settings.volume * this.duckGain;
+  }
+
+  public get currentTrack(): Track | null {
+    return this.tracks[this.order[this.position]] ?? null;
+  }
+
+  /** Replaces the playlist. Keeps playing the current track if it's still in it. */
+  public setTracks(tracks: Track[]) {
+    const currentId = this.currentTrack?.id;
+    this.tracks = tracks;
+    this.rebuildOrder(currentId);
+    if (this.currentTrack?.id !== currentId) {
+      this.startTrack();
+    } else {
+      this.currentDeck.loop = this.shouldLoop();
+    }
+    this.emit();
+  }
+
+  public async play(): Promise<boolean> {
+    const deck = this.currentDeck;
+    if (!this.currentTrack) return false;
+    if (!deck.src) this.startTrack();
+    try {
+      await deck.play();
+      this.playing = true;
+    } catch (e) {
+      console.error("Audio playback failed:", e);
+      this.playing = false;
+    }
+    this.emit();
+    return this.playing;
+  }
+
+  public pause() {
+    this.stopFade();
+    this.decks.forEach(deck => deck.pause());
+    this.currentDeck.volume = this.level;
+    this.playing = false;
+    this.emit();
+  }
+
+  public next() {
+    if (this.order.length === 0) return;
+    this.position = this.nextPosition() ?? 0; // Skipping by hand wraps even with repeat off
+    this.startTrack();
+    this.emit();
+  }
+
+  public previous() {
+    if (this.order.length === 0) return;
+    if (this.currentDeck.currentTime > RESTART_THRESHOLD) {
+      this.currentDeck.currentTime = 0;
+      return;
+    }
+    this.position = (this.position - 1 + this.order.length) % this.order.length;
+    this.startTrack();
+    this.emit();
+  }
+
+  public playTrack(id: string) {
+    const position = this.order.findIndex(i => this.tracks[i].id === id);
+    if (position === -1) return;
+    this.position = position;
+    this.startTrack();
+    this.emit();
+    if (!this.playing) this.play();
+  }
+
+  public setVolume(volume: number) {
+    this.settings.volume = volume;
+    if (!this.fadeTimer) this.currentDeck.volume = this.level;
+  }
+
+  /** Fades the music down under other sound, e.g. a video clip, and back up afterwards. */
+  public setDucked(ducked: boolean) {
+    this.duckTarget = ducked ? DUCK_GAIN : 1;
+    if (this.duckTimer) return;
+
+    const step = ((1 - DUCK_GAIN) * FADE_STEP_MS) / (DUCK_SECONDS * 1000);
+    this.duckTimer = setInterval(() => {
+      const remaining = this.duckTarget - this.duckGain;
+      this.duckGain = Math.abs(remaining) <= step ? this.duckTarget : this.duckGain + Math.sign(remaining) * step;
+      // A running crossfade picks the new level up on its next step
+      if (!this.fadeTimer) this.currentDeck.volume = this.level;
+      if (this.duckGain === this.duckTarget && this.duckTimer) {
+        clearInterval(this.duckTimer);
+        this.duckTimer = null;
+      }
+    }, FADE_STEP_MS);
+  }
+
+  public setShuffle(shuffle: boolean) {
+    if (shuffle === this.settings.shuffle) return;
+    this.settings.shuffle = shuffle;
+    this.rebuildOrder(this.currentTrack?.id);
+  }
+
+  public setRepeat(repeat: RepeatMode) {
+    this.settings.repeat = repeat;
+    this.currentDeck.loop = this.shouldLoop();
+  }
+
+  private rebuildOrder(keepId: string | undefined) {
+    const indices = this.tracks.map((_, i) => i);
+    const keepIndex = this.tracks.findIndex(track => track.id === keepId);
+    if (this.settings.shuffle) {
+      const rest = shuffled(indices.filter(i => i !== keepIndex));
+      this.order = keepIndex === -1 ? rest : [keepIndex, ...rest];
+      this.position = 0;
+    } else {
+      this.order = indices;
+      this.position = Math.max(0, keepIndex);
+    }
+  }
+
+  private nextPosition(): number | null {
+    if (this.position + 1 < this.order.length) return this.position + 1;
+    return this.settings.repeat === 'all' ? 0 : null;
+  }
+
+  // A lone track on repeat loops natively, without a crossfade into itself
+  private shouldLoop() {
+    const { repeat } = this.settings;
+    return repeat === 'one' || (repeat === 'all' && this.tracks.length === 1);
+  }
+
+  /** Loads the current track, crossfading from the old one if music is playing. */
+  private startTrack() {
+    const track = this.currentTrack;
+    const previous = this.currentDeck;
+
+    if (!track) {
+      this.stopFade();
+      this.decks.forEach(deck => {
+        deck.pause();
+        deck.removeAttribute('src');
+      });
+      this.playing = false;
+      return;
+    }
+
+    if (this.playing) this.active = 1 - this.active;
+    const deck = this.currentDeck;
+    deck.src = track.url;
+    deck.loop = this.shouldLoop();
+
+    if (!this.playing) {
+      deck.volume = this.level;
+      return;
+    }
+
+    deck.volume = 0;
+    deck.play().catch(e => console.warn("Playback failed on track change:", e));
+    this.crossfade(previous, deck);
+  }
+
+  private crossfade(from: HTMLAudioElement, to: HTMLAudioElement) {
+    this.stopFade();
+    // A fade interrupted midway continues from wherever its volumes got to
+    const fromGain = this.level > 0 ? Math.min(1, from.volume / this.level) : 1;
+    const start = performance.now();
+
+    this.fadeTimer = setInterval(() => {
+      const t = Math.min(1, (performance.now() - start) / (CROSSFADE_SECONDS * 1000));
+      to.volume = this.level * t;
+      from.volume = this.level * fromGain * (1 - t);
+      if (t >= 1) {
+        from.pause();
+        this.stopFade();
+      }
+    }, FADE_STEP_MS);
+  }
+
+  private stopFade() {
+    if (this.fadeTimer) clearInterval(this.fadeTimer);
+    this.fadeTimer = null;
+  }
+
+  // Start the crossfade before the track ends so the next one overlaps it
+  private handleTimeUpdate(deck: HTMLAudioElement) {
+    if (deck !== this.currentDeck || !this.playing || deck.loop || this.tracks.length < 2) return;
+    // Tracks shorter than two fades just play out and advance on 'ended'
+    if (!(deck.duration > CROSSFADE_SECONDS * 2)) return;
+    if (deck.duration - deck.currentTime <= CROSSFADE_SECONDS && this.nextPosition() !== null) {
+      this.next();
+    }
+  }
+
+  private handleEnded(deck: HTMLAudioElement) {
+    if (deck !== this.currentDeck || !this.playing) return;
+    const position = this.nextPosition();
+    if (position === null) {
+      // End of the playlist with repeat off: stop, ready to start over
+      this.playing = false;
+      this.position = 0;
+      this.startTrack();
+      this.emit();
+      return;
+    }
+    this.position = position;
+    this.startTrack();
+    this.emit();
+  }
+
+  private emit() {
+    this.onChange({ track: this.currentTrack, isPlaying: this.playing });
+  }
+}
+
+/** A readable name for a streamed track, e.g. "Jingle Bells" from ".../Jingle_Bells.mp3". */
+export function trackNameFromUrl(url: string): string {
+  const file = url.split(/[?#]/)[0].split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(file).replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Music';
+  } catch {
+    return 'Music';
+  }
+}
+
+export function loadPlaybackSettings(): PlaybackSettings {
+  return { ...DEFAULT_PLAYBACK_SETTINGS, ...loadSetting<Partial<PlaybackSettings>>(PLAYBACK_SETTING_KEY, {}) };
+}
+
+export function savePlaybackSettings(settings: PlaybackSettings) {
+  saveSetting(PLAYBACK_SETTING_KEY, settings);
+}
@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+
+/**
+ * Per-frame inputs to the ornament shader. Everything per-ornament lives in instanced
+ * attributes, so a frame only updates these few numbers no matter how many ornaments there are.
+ */
+export interface OrnamentUniforms {
+  uTime: { value: number };
+  uWeights: { value: THREE.Vector3 };  // How much of the tree, scatter and picture formations to use; sums to 1
+  uOriginWeight: { value: number };    // Fades from 1 to 0 after a layout change, morphing away from aOrigin
+  uZoomScale: { value: number };       // Ornaments shrink while a photo is zoomed
+  uPictureScale: { value: number };    // Uniform size in the picture formation
+  uScaleIn: { value: number };         // Grows from ~0 on mount
+  uPulse: { value: number };           // Audio-driven size multiplier
+  uColorBlend: { value: number };      // 0 = material color, 1 = each ornament's picture color
+}
+
+export interface OrnamentMaterial {
+  material: THREE.MeshStandardMaterial;
+  uniforms: OrnamentUniforms;
+}
+
+// Instanced attributes read by the shader, with their item sizes
+export const ORNAMENT_ATTRIBUTES = {
+  aTreePos: 3,
+  aScatterPos: 3,
+  aPicturePos: 3,
+  aOrigin: 3,       // Where each ornament was when the layout last changed
+  aPictureColor: 4, // Linear RGB, alpha 0 = no picture color
+  aScale: 1,
+  aSpin: 2,         // Rotation speed around x and y, rad/s
+  aSeed: 1          // Phase offset for the scatter drift
+} as const;
+
+export type OrnamentAttribute = keyof typeof ORNAMENT_ATTRIBUTES;
+
+const VERTEX_HEADER = /* glsl */ `
+attribute vec3 aTreePos;
+attribute vec3 aScatterPos;
+attribute vec3 aPicturePos;
+attribute vec3 aOrigin;
+attribute vec4 aPictureColor;
+attribute float aScale;
+attribute vec2 aSpin;
+attribute float aSeed;
+uniform float uTime;
+uniform vec3 uWeights;
+uniform float uOriginWeight;
+uniform float uZoomScale;
+uniform float uPictureScale;
+uniform float uScaleIn;
+uniform float uPulse;
+varying vec4 vPictureColor;
+
+// Same as an Euler rotation of (x, y, 0) in XYZ order
+mat3 ornamentRotation() {
+  float ax = aSpin.x * uTime;
+  float ay = aSpin.y * uTime;
+  mat3 rx = mat3(1.0, 0.0, 0.0, 0.0, cos(ax), sin(ax), 0.0, -sin(ax), cos(ax));
+  mat3 ry = mat3(cos(ay), 0.0, -sin(ay), 0.0, 1.0, 0.0, sin(ay), 0.0, cos(ay));
+  return rx * ry;
+}
+
+vec3 ornamentOffset() {
+  vec3 scatter = aScatterPos + vec3(cos(uTime * 0.5 + aSeed) * 0.2, sin(uTime + aSeed) * 0.5, 0.0);
+  vec3 formation = aTreePos * uWeights.x + scatter * uWeights.y + aPicturePos * uWeights.z;
+  return mix(formation, aOrigin, uOriginWeight);
+}
+
+float ornamentScale() {
+  return mix(aScale * uZoomScale, uPictureScale, uWeights.z) * uScaleIn * uPulse;
+}
+`;
+
+const FRAGMENT_HEADER = /* glsl */ `
+uniform float uColorBlend;
+varying vec4 vPictureColor;
+`;
+
+/**
+ * A standard material whose vertex shader places, sizes and spins each instance from its
+ * attributes and the formation weights, replacing per-frame instance matrices.
+ */
+export function createOrnamentMaterial(): OrnamentMaterial {
+  const uniforms: OrnamentUniforms = {
+    uTime: { value: 0 },
+    uWeights: { value: new THREE.Vector3(1, 0, 0) },
+    uOriginWeight: { value: 1 },
+    uZoomScale: { value: 1 },
+    uPictureScale: { value: 1 },
+    uScaleIn: { value: 0.01 },
+    uPulse: { value: 1 },
+    uColorBlend: { value: 0 }
+  };
+
+  const material = new THREE.MeshStandardMaterial({ color: '#FFFFFF' });
+  material.onBeforeCompile = shader => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${VERTEX_HEADER}`)
+      .replace(
+        '#include <beginnormal_vertex>',
+        'mat3 ornamentRot = ornamentRotation();\nvec3 objectNormal = ornamentRot * vec3( normal );'
+      )
+      .replace(
+        '#include <begin_vertex>',
+        'vec3 transformed = ornamentRot * vec3( position ) * ornamentScale() + ornamentOffset();\nvPictureColor = aPictureColor;'
+      );
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${FRAGMENT_HEADER}`)
+      .replace(
+        '#include <color_fragment>',
+        '#include <color_fragment>\ndiffuseColor.rgb = mix( diffuseColor.rgb, vPictureColor.rgb, uColorBlend * vPictureColor.a );'
+      );
+  };
+
+  return { material, uniforms };
+}
+
+/**
+ * Where an ornament currently is, evaluated on the CPU the same way the shader does
+ * (minus rotation). Used to start a new layout from wherever the old one left off.
+ */
+export function currentOrnamentPosition(
+  uniforms: OrnamentUniforms,
+  attributes: Record<OrnamentAttribute, Float32Array>,
+  i: number,
+  out: THREE.Vector3
+): THREE.Vector3 {
+  const t = uniforms.uTime.value;
+  const w = uniforms.uWeights.value;
+  const o = uniforms.uOriginWeight.value;
+  const seed = attributes.aSeed[i];
+  const drift = [Math.cos(t * 0.5 + seed) * 0.2, Math.sin(t + seed) * 0.5, 0];
+
+  const component = (axis: number) => {
+    const k = i * 3 + axis;
+    const formation = attributes.aTreePos[k] * w.x
+      + (attributes.aScatterPos[k] + drift[axis]) * w.y
+      + attributes.aPicturePos[k] * w.z;
+    return formation + (attributes.aOrigin[k] - formation) * o;
+  };
+  return out.set(component(0), component(1), component(2));
+}
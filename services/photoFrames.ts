@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { PhotoFrameStyle } from '../types';
+
+// All sizes are in photo units: the longer edge of the picture is 1
+const GOLD_BORDER = 0.05;
+const GOLD_BEVEL = 0.02;
+const POLAROID_BORDER = 0.06;
+export const POLAROID_STRIP = 0.26; // The wider bottom margin the caption is written on
+const BAUBLE_RADIUS = 0.5;
+const STRIP_TEXTURE_WIDTH = 512;
+
+/** Where the picture and its frame sit, relative to the center of the picture. */
+export interface PhotoLayout {
+  photoWidth: number;
+  photoHeight: number;
+  frameWidth: number;
+  frameHeight: number;
+  frameCenterY: number;
+  round: boolean; // The picture is cut to a circle
+}
+
+export function photoLayout(style: PhotoFrameStyle, aspect: number): PhotoLayout {
+  if (style === 'bauble') {
+    // Rim around the picture, plus the cap and loop on top
+    const size = BAUBLE_RADIUS * 2;
+    return {
+      photoWidth: size,
+      photoHeight: size,
+      frameWidth: size + 0.11,
+      frameHeight: size + 0.28,
+      frameCenterY: 0.085,
+      round: true
+    };
+  }
+
+  const photoWidth = aspect >= 1 ? 1 : aspect;
+  const photoHeight = aspect >= 1 ? 1 / aspect : 1;
+  if (style === 'polaroid') {
+    return {
+      photoWidth,
+      photoHeight,
+      frameWidth: photoWidth + POLAROID_BORDER * 2,
+      frameHeight: photoHeight + POLAROID_BORDER + POLAROID_STRIP,
+      frameCenterY: (POLAROID_BORDER - POLAROID_STRIP) / 2,
+      round: false
+    };
+  }
+  return {
+    photoWidth,
+    photoHeight,
+    frameWidth: photoWidth + GOLD_BORDER * 2,
+    frameHeight: photoHeight + GOLD_BORDER * 2,
+    frameCenterY: 0,
+    round: false
+  };
+}
+
+/** The frame behind a picture, as one geometry so it takes a single material. Front face just behind z = 0. */
+export function createFrameGeometry(style: PhotoFrameStyle, layout: PhotoLayout): THREE.BufferGeometry {
+  if (style === 'bauble') {
+    const backing = new THREE.CylinderGeometry(BAUBLE_RADIUS + 0.02, BAUBLE_RADIUS + 0.02, 0.03, 48);
+    backing.rotateX(Math.PI / 2);
+    backing.translate(0, 0, -0.02);
+    const rim = new THREE.TorusGeometry(BAUBLE_RADIUS + 0.02, 0.035, 12, 48);
+    const cap = new THREE.CylinderGeometry(0.08, 0.09, 0.1, 16);
+    cap.translate(0, BAUBLE_RADIUS + 0.08, 0);
+    const loop = new THREE.TorusGeometry(0.04, 0.012, 8, 16);
+    loop.translate(0, BAUBLE_RADIUS + 0.16, 0);
+    const merged = mergeGeometries([backing, rim, cap, loop]);
+    [backing, rim, cap, loop].forEach(part => part.dispose());
+    return merged;
+  }
+
+  if (style === 'polaroid') {
+    const card = new THREE.BoxGeometry(layout.frameWidth, layout.frameHeight, 0.03);
+    card.translate(0, layout.frameCenterY, -0.02);
+    return card;
+  }
+
+  // Gold bevel: a rounded slab whose beveled edge catches the light
+  const inner = new THREE.Shape();
+  const w = layout.frameWidth / 2 - GOLD_BEVEL;
+  const h = layout.frameHeight / 2 - GOLD_BEVEL;
+  inner.moveTo(-w, -h);
+  inner.lineTo(w, -h);
+  inner.lineTo(w, h);
+  inner.lineTo(-w, h);
+  inner.closePath();
+  const depth = 0.02;
+  const slab = new THREE.ExtrudeGeometry(inner, {
+    depth,
+    bevelEnabled: true,
+    bevelThickness: GOLD_BEVEL,
+    bevelSize: GOLD_BEVEL,
+    bevelSegments: 3
+  });
+  slab.translate(0, layout.frameCenterY, -(depth + GOLD_BEVEL) - 0.01);
+  return slab;
+}
+
+/** The caption written on a polaroid's bottom strip in dark ink; null when there's nothing to write. */
+export function createStripTexture(text: string): { texture: THREE.CanvasTexture; aspect: number } | null {
+  const caption = text.trim();
+  if (!caption) return null;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const width = STRIP_TEXTURE_WIDTH;
+  const height = Math.round(width * 0.2);
+  canvas.width = width;
+  canvas.height = height;
+  ctx.fillStyle = '#F7F3EA';
+  ctx.fillRect(0, 0, width, height);
+
+  let size = height * 0.55;
+  ctx.font = `italic ${size}px Lato, sans-serif`;
+  const measured = ctx.measureText(caption).width;
+  if (measured > width * 0.92) {
+    size *= (width * 0.92) / measured;
+    ctx.font = `italic ${size}px Lato, sans-serif`;
+  }
+  ctx.fillStyle = '#2B2B33';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(caption, width / 2, height / 2);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return { texture, aspect: width / height };
+}
@@ -0,0 +1,122 @@
+import { PhotoMetadata, StoredPhoto } from '../types';
+import { PHOTO_STORE, openDatabase, promisify, transactionDone } from './indexedDb';
+
+/**
+ * Keeps uploaded photos (the raw blobs, their order and metadata) in IndexedDB
+ * so the album survives page reloads.
+ * Every method degrades to a no-op when IndexedDB is unavailable (private mode, old browsers).
+ */
+export class PhotoLibraryService {
+  private dbPromise: Promise<IDBDatabase | null>;
+
+  constructor() {
+    this.dbPromise = openDatabase();
+  }
+
+  /** Returns every stored photo, sorted by album order. */
+  public async loadAll(): Promise<StoredPhoto[]> {
+    const db = await this.dbPromise;
+    if (!db) return [];
+
+    try {
+      const tx = db.transaction(PHOTO_STORE, 'readonly');
+      const records = await promisify(tx.objectStore(PHOTO_STORE).getAll()) as StoredPhoto[];
+      // Records saved before dates and uploaders existed get empty values
+      return records
+        .map(record => ({ date: null, uploader: '', ...record }))
+        .sort((a, b) => a.order - b.order);
+    } catch (e) {
+      console.warn("Failed to load photo library:", e);
+      return [];
+    }
+  }
+
+  /** Appends photos to the end of the album and returns the records that were written. */
+  public async addPhotos(photos: { blob: Blob; metadata: PhotoMetadata }[]): Promise<StoredPhoto[]> {
+    const toRecords = (firstOrder: number): StoredPhoto[] => photos.map(({ blob, metadata }, i) => ({
+      ...metadata,
+      id: crypto.randomUUID(),
+      blob,
+      order: firstOrder + i
+    }));
+
+    const db = await this.dbPromise;
+    if (!db) return toRecords(0);
+
+    let records: StoredPhoto[] = [];
+    try {
+      // Reading the last order and writing in one transaction keeps overlapping uploads from sharing orders
+      const tx = db.transaction(PHOTO_STORE, 'readwrite');
+      const store = tx.objectStore(PHOTO_STORE);
+      const existing = await promisify(store.getAll()) as StoredPhoto[];
+      records = toRecords(existing.reduce((max, record) => Math.max(max, record.order + 1), 0));
+      records.forEach(record => store.put(record));
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to save photos:", e);
+      if (records.length === 0) records = toRecords(0);
+    }
+    return records;
+  }
+
+  /** Merges changes into a stored photo: new metadata, or a new image with blob. */
+  public async updatePhoto(id: string, changes: Partial<PhotoMetadata> & { blob?: Blob }) {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(PHOTO_STORE, 'readwrite');
+      const store = tx.objectStore(PHOTO_STORE);
+      const record = await promisify(store.get(id)) as StoredPhoto | undefined;
+      if (record) store.put({ ...record, ...changes });
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to update photo:", e);
+    }
+  }
+
+  public async removePhoto(id: string) {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(PHOTO_STORE, 'readwrite');
+      tx.objectStore(PHOTO_STORE).delete(id);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to remove photo:", e);
+    }
+  }
+
+  /** Rewrites the order field so it follows the given id sequence. */
+  public async reorder(ids: string[]) {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(PHOTO_STORE, 'readwrite');
+      const store = tx.objectStore(PHOTO_STORE);
+      const records = await promisify(store.getAll()) as StoredPhoto[];
+      records.forEach(record => {
+        const order = ids.indexOf(record.id);
+        if (order !== -1) store.put({ ...record, order });
+      });
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to reorder photos:", e);
+    }
+  }
+
+  public async clear() {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(PHOTO_STORE, 'readwrite');
+      tx.objectStore(PHOTO_STORE).clear();
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to clear photo library:", e);
+    }
+  }
+}
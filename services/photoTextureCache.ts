@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { PerformanceStats } from '../types';
+
+export type PhotoTextureDetail = 'thumbnail' | 'full';
+
+// Longest edge in pixels: small for the tree and scatter views, large enough to fill the screen in zoom
+const DETAIL_SIZES: Record<PhotoTextureDetail, number> = {
+  thumbnail: 256,
+  full: 2048
+};
+// Unused textures are kept for quick re-zooms until the total goes over this
+const DEFAULT_BUDGET_BYTES = 192 * 1024 * 1024;
+const MIPMAP_OVERHEAD = 4 / 3;
+
+interface Entry {
+  url: string;
+  detail: PhotoTextureDetail;
+  texture: Promise<THREE.Texture | null>;
+  loaded: THREE.Texture | null;
+  bytes: number;
+  refs: number;
+  lastUsed: number;
+  discarded: boolean; // The photo is gone; dispose as soon as nobody renders it
+}
+
+const keyOf = (url: string, detail: PhotoTextureDetail) => `${detail}:${url}`;
+
+/**
+ * Turns photo URLs into GPU textures at two sizes. Files are decoded and downscaled with
+ * createImageBitmap, which runs off the main thread, one at a time so a big upload doesn't hold
+ * dozens of full-size decodes in memory at once. Textures are reference counted; unused ones are
+ * evicted least recently used first once the memory budget is exceeded.
+ */
+export class PhotoTextureCache {
+  private entries = new Map<string, Entry>();
+  private decodeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private stats?: PerformanceStats, private budgetBytes: number = DEFAULT_BUDGET_BYTES) {}
+
+  /** GPU memory held by loaded textures, mipmaps included. */
+  public get usedBytes(): number {
+    let total = 0;
+    this.entries.forEach(entry => (total += entry.bytes));
+    return total;
+  }
+
+  /** Resolves to the texture (null if the image can't be decoded). Pair every call with release(). */
+  public acquire(url: string, detail: PhotoTextureDetail): Promise<THREE.Texture | null> {
+    const key = keyOf(url, detail);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      const created: Entry = {
+        url,
+        detail,
+        texture: Promise.resolve(null),
+        loaded: null,
+        bytes: 0,
+        refs: 0,
+        lastUsed: 0,
+        discarded: false
+      };
+      created.texture = this.load(created);
+      this.entries.set(key, created);
+      entry = created;
+    }
+    entry.refs++;
+    entry.lastUsed = performance.now();
+    return entry.texture;
+  }
+
+  public release(url: string, detail: PhotoTextureDetail) {
+    const entry = this.entries.get(keyOf(url, detail));
+    if (!entry) return;
+    entry.refs = Math.max(0, entry.refs - 1);
+    entry.lastUsed = performance.now();
+    if (entry.refs === 0 && entry.discarded) this.dispose(entry);
+    else this.evict();
+  }
+
+  /**
+   * Forgets a photo that was removed or replaced: revokes its object URL and disposes its
+   * textures, right away or once the last user releases them.
+   */
+  public discard(url: string) {
+    if (url.startsWith('blob:')) URL.revokeObjectURL(url);
+    for (const detail of Object.keys(DETAIL_SIZES) as PhotoTextureDetail[]) {
+      const entry = this.entries.get(keyOf(url, detail));
+      if (!entry) continue;
+      entry.discarded = true;
+      if (entry.refs === 0) this.dispose(entry);
+    }
+  }
+
+  private load(entry: Entry): Promise<THREE.Texture | null> {
+    const decode = this.decodeQueue.then(async () => {
+      if (entry.discarded) return null;
+      try {
+        const blob = await (await fetch(entry.url)).blob();
+        const bitmap = await this.decode(blob, DETAIL_SIZES[entry.detail]);
+        if (entry.discarded) {
+          bitmap.close();
+          return null;
+        }
+
+        const texture = new THREE.Texture(bitmap);
+        texture.flipY = false; // Flipped while decoding; WebGL ignores flipY for bitmaps
+        texture.colorSpace = THREE.SRGBColorSpace;
+        texture.needsUpdate = true;
+        entry.loaded = texture;
+        entry.bytes = bitmap.width * bitmap.height * 4 * MIPMAP_OVERHEAD;
+        this.updateStats();
+        this.evict();
+        return texture;
+      } catch (e) {
+        console.warn("Failed to load photo texture:", e);
+        return null;
+      }
+    });
+    this.decodeQueue = decode;
+    return decode;
+  }
+
+  private async decode(blob: Blob, maxSize: number): Promise<ImageBitmap> {
+    // The first decode applies EXIF orientation, so its size is the upright size
+    const original = await createImageBitmap(blob);
+    const scale = Math.min(1, maxSize / Math.max(original.width, original.height));
+    try {
+      return await createImageBitmap(original, {
+        resizeWidth: Math.max(1, Math.round(original.width * scale)),
+        resizeHeight: Math.max(1, Math.round(original.height * scale)),
+        resizeQuality: 'high',
+        imageOrientation: 'flipY'
+      });
+    } finally {
+      original.close();
+    }
+  }
+
+  private evict() {
+    let total = this.usedBytes;
+    if (total <= this.budgetBytes) return;
+
+    const idle = [...this.entries.values()]
+      .filter(entry => entry.refs === 0 && entry.loaded)
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of idle) {
+      if (total <= this.budgetBytes) break;
+      total -= entry.bytes;
+      this.dispose(entry);
+    }
+  }
+
+  private dispose(entry: Entry) {
+    this.entries.delete(keyOf(entry.url, entry.detail));
+    if (entry.loaded) {
+      entry.loaded.dispose();
+      (entry.loaded.image as ImageBitmap).close();
+    }
+    entry.loaded = null;
+    entry.discarded = true; // A decode still in the queue skips itself
+    this.updateStats();
+  }
+
+  private updateStats() {
+    if (this.stats) this.stats.photoTextureBytes = this.usedBytes;
+  }
+}
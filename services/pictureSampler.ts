@@ -0,0 +1,134 @@
+import { PictureLayout, PictureSource, Theme, Vec3 } from '../types';
+
+// Size of the formation in world units; it faces the camera at the origin
+const PICTURE_WIDTH = 22;
+const PICTURE_MAX_HEIGHT = 13;
+const PICTURE_DEPTH = 0.6;
+// Longest side of the offscreen canvas for images; text is rendered at FONT_SIZE instead
+const IMAGE_RESOLUTION = 160;
+const FONT_SIZE = 96;
+const FONT = `700 ${FONT_SIZE}px Cinzel, serif`;
+const ALPHA_THRESHOLD = 128;
+
+interface Canvas2D {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+}
+
+function createCanvas(width: number, height: number): Canvas2D | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  return ctx ? { ctx, width: canvas.width, height: canvas.height } : null;
+}
+
+async function renderText(text: string, palette: Theme['palette']): Promise<Canvas2D | null> {
+  const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return null;
+
+  // Canvas falls back to a default font silently if the webfont isn't ready yet
+  await document.fonts?.load(FONT).catch(() => undefined);
+
+  const measure = createCanvas(1, 1);
+  if (!measure) return null;
+  measure.ctx.font = FONT;
+  const lineHeight = FONT_SIZE * 1.15;
+  const width = Math.max(...lines.map(line => measure.ctx.measureText(line).width)) + FONT_SIZE * 0.5;
+
+  const target = createCanvas(width, lineHeight * lines.length + FONT_SIZE * 0.3);
+  if (!target) return null;
+  const { ctx } = target;
+
+  // A vertical gradient gives the sampled particles some variation in tint
+  const gradient = ctx.createLinearGradient(0, 0, 0, target.height);
+  gradient.addColorStop(0, palette.glow);
+  gradient.addColorStop(0.5, palette.primary);
+  gradient.addColorStop(1, palette.secondary);
+
+  ctx.font = FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = gradient;
+  lines.forEach((line, i) => {
+    ctx.fillText(line, target.width / 2, FONT_SIZE * 0.15 + lineHeight * (i + 0.5));
+  });
+  return target;
+}
+
+async function renderImage(image: Blob): Promise<Canvas2D | null> {
+  const bitmap = await createImageBitmap(image);
+  const scale = IMAGE_RESOLUTION / Math.max(bitmap.width, bitmap.height);
+  const target = createCanvas(bitmap.width * scale, bitmap.height * scale);
+  if (target) target.ctx.drawImage(bitmap, 0, 0, target.width, target.height);
+  bitmap.close();
+  return target;
+}
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(v => v.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Picks `count` pixels that are spread evenly over the opaque parts of a canvas.
+ * A grid sized to the filled area gives even coverage; random filled pixels top it up
+ * when the grid falls short.
+ */
+function samplePixels({ ctx, width, height }: Canvas2D, count: number): PictureLayout | null {
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const filled: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] >= ALPHA_THRESHOLD) filled.push(i);
+  }
+  if (filled.length === 0) return null;
+
+  const step = Math.max(1, Math.floor(Math.sqrt(filled.length / count)));
+  const picked: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = y * width + x;
+      if (data[i * 4 + 3] >= ALPHA_THRESHOLD) picked.push(i);
+    }
+  }
+  // Too many: drop a random subset. Too few: reuse random filled pixels.
+  while (picked.length > count) {
+    picked.splice(Math.floor(Math.random() * picked.length), 1);
+  }
+  while (picked.length < count) {
+    picked.push(filled[Math.floor(Math.random() * filled.length)]);
+  }
+
+  const scale = Math.min(PICTURE_WIDTH / width, PICTURE_MAX_HEIGHT / height);
+  const jitter = () => (Math.random() - 0.5) * step * scale * 0.5;
+
+  const positions: Vec3[] = picked.map(i => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    return [
+      (x - width / 2) * scale + jitter(),
+      (height / 2 - y) * scale + jitter(), // Canvas y points down
+      (Math.random() - 0.5) * PICTURE_DEPTH
+    ];
+  });
+  const colors = picked.map(i => toHex(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+  return { positions, colors };
+}
+
+/**
+ * Lays out `count` ornaments as a picture of a greeting or an uploaded image,
+ * each taking the color of the pixel it stands for. Text is colored from the theme palette.
+ * Returns null if there is nothing to draw.
+ */
+export async function samplePicture(
+  source: PictureSource,
+  count: number,
+  palette: Theme['palette']
+): Promise<PictureLayout | null> {
+  try {
+    const canvas = source.kind === 'text' ? await renderText(source.text, palette) : await renderImage(source.image);
+    return canvas ? samplePixels(canvas, count) : null;
+  } catch (e) {
+    console.warn("Failed to sample picture:", e);
+    return null;
+  }
+}
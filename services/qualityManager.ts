@@ -0,0 +1,100 @@
+import { QualityTier } from '../types';
+import { QUALITY_TIERS } from '../constants';
+
+const WINDOW_SECONDS = 2;
+// Hysteresis: drop quickly when frames are slow, climb back only after a sustained margin
+const DOWNGRADE_FPS = 40;
+const UPGRADE_FPS = 57;
+const DOWNGRADE_WINDOWS = 2;
+const UPGRADE_WINDOWS = 5;
+// Switching rebuilds geometry and shaders; that hitch shouldn't count against the new tier
+const SETTLE_WINDOWS = 1;
+// Leaving a tier within this many windows of stepping up to it counts as a failed upgrade
+const RETRY_WINDOWS = 15;
+// Deltas above this are a backgrounded tab or a debugger pause, not slow rendering
+const MAX_FRAME_SECONDS = 0.25;
+
+/**
+ * Picks a rendering tier from measured frame times, one step at a time.
+ * A tier that had to be left shortly after stepping up to it is only retried after
+ * twice as long each time, so a device on the edge doesn't flip back and forth.
+ */
+export class QualityManager {
+  private tier: QualityTier;
+  private auto = true;
+  private frames = 0;
+  private elapsed = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private settleWindows = SETTLE_WINDOWS;
+  private upgradeWindows = UPGRADE_WINDOWS;
+  private windowsSinceUpgrade = Infinity;
+
+  constructor(private onTierChange: (tier: QualityTier) => void) {
+    this.tier = QualityManager.initialTier();
+  }
+
+  public get currentTier(): QualityTier {
+    return this.tier;
+  }
+
+  /** While off, frames are ignored and the tier stays wherever it was. */
+  public setAuto(enabled: boolean) {
+    if (enabled === this.auto) return;
+    this.auto = enabled;
+    this.resetWindow();
+    this.settleWindows = SETTLE_WINDOWS;
+  }
+
+  public recordFrame(deltaSeconds: number) {
+    if (!this.auto || deltaSeconds > MAX_FRAME_SECONDS) return;
+    this.frames++;
+    this.elapsed += deltaSeconds;
+    if (this.elapsed < WINDOW_SECONDS) return;
+
+    const fps = this.frames / this.elapsed;
+    this.frames = 0;
+    this.elapsed = 0;
+    this.windowsSinceUpgrade++;
+    if (this.settleWindows > 0) {
+      this.settleWindows--;
+      return;
+    }
+
+    this.slowWindows = fps < DOWNGRADE_FPS ? this.slowWindows + 1 : 0;
+    this.fastWindows = fps >= UPGRADE_FPS ? this.fastWindows + 1 : 0;
+
+    if (this.slowWindows >= DOWNGRADE_WINDOWS) {
+      // Backing out of a tier we only just tried: wait longer before trying it again
+      this.upgradeWindows = this.windowsSinceUpgrade <= RETRY_WINDOWS ? this.upgradeWindows * 2 : UPGRADE_WINDOWS;
+      this.step(-1);
+    } else if (this.fastWindows >= this.upgradeWindows) {
+      this.step(1);
+    }
+  }
+
+  private step(direction: -1 | 1) {
+    const index = QUALITY_TIERS.indexOf(this.tier) + direction;
+    this.resetWindow();
+    if (index < 0 || index >= QUALITY_TIERS.length) return;
+
+    this.tier = QUALITY_TIERS[index];
+    this.windowsSinceUpgrade = direction > 0 ? 0 : Infinity;
+    this.settleWindows = SETTLE_WINDOWS;
+    this.onTierChange(this.tier);
+  }
+
+  private resetWindow() {
+    this.frames = 0;
+    this.elapsed = 0;
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+  }
+
+  // Start a step down on hardware that is unlikely to hold the top tier, rather than stutter first
+  private static initialTier(): QualityTier {
+    const cores = navigator.hardwareConcurrency ?? 8;
+    const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? 8;
+    return cores <= 4 || memory <= 4 ? 'medium' : 'high';
+  }
+}
@@ -0,0 +1,176 @@
+import { addAfterEffect } from '@react-three/fiber';
+
+const FRAME_RATE = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+// First one the browser supports wins
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const PREVIEW_WIDTH_SHARE = 0.2; // Camera preview width as a share of the video width
+const PREVIEW_ASPECT = 4 / 3;
+
+export interface RecordingOverlay {
+  camera: HTMLVideoElement | null; // Left out when null or not playing
+  mirrorCamera: boolean;
+  title: string;
+  subtitle: string;
+}
+
+export interface RecordingSources {
+  canvas: HTMLCanvasElement; // The R3F canvas; the overlay copies it right after each render
+  audio: MediaStream | null;
+  overlay: RecordingOverlay | null;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/**
+ * Records the scene canvas and music to WebM. Without an overlay the canvas is captured directly;
+ * with one, each frame is composited onto a 2D canvas together with the camera preview and title,
+ * since those are DOM elements the WebGL canvas never sees.
+ */
+export class SceneRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private stopTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopCompositing: (() => void) | null = null;
+  private videoStream: MediaStream | null = null;
+
+  constructor(
+    private onFinish: (blob: Blob) => void,
+    private onRecordingChange: (isRecording: boolean) => void
+  ) {}
+
+  public get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  /** Starts recording; returns false if the browser can't. Stops by itself after maxDurationSeconds. */
+  public start(sources: RecordingSources, maxDurationSeconds: number): boolean {
+    if (this.recorder || !isRecordingSupported()) return false;
+
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    try {
+      this.videoStream = sources.overlay
+        ? this.startComposite(sources.canvas, sources.overlay)
+        : sources.canvas.captureStream(FRAME_RATE);
+      const stream = new MediaStream([
+        ...this.videoStream.getVideoTracks(),
+        ...(sources.audio?.getAudioTracks() ?? [])
+      ]);
+
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+      this.chunks = [];
+      recorder.ondataavailable = e => {
+        if (e.data.size > 0) this.chunks.push(e.data);
+      };
+      recorder.onstop = () => this.finish(recorder.mimeType || 'video/webm');
+      recorder.start(1000); // Collect in slices so a long recording isn't one huge buffer at the end
+      this.recorder = recorder;
+    } catch (e) {
+      console.error("Failed to start recording:", e);
+      this.cleanup();
+      return false;
+    }
+
+    this.stopTimer = setTimeout(() => this.stop(), maxDurationSeconds * 1000);
+    this.onRecordingChange(true);
+    return true;
+  }
+
+  public stop() {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+  }
+
+  private finish(mimeType: string) {
+    const blob = new Blob(this.chunks, { type: mimeType });
+    this.chunks = [];
+    this.cleanup();
+    this.onRecordingChange(false);
+    if (blob.size > 0) this.onFinish(blob);
+  }
+
+  private cleanup() {
+    if (this.stopTimer) clearTimeout(this.stopTimer);
+    this.stopCompositing?.();
+    // Only our own capture tracks; the music stream is shared and stays alive
+    this.videoStream?.getTracks().forEach(track => track.stop());
+    this.stopTimer = null;
+    this.stopCompositing = null;
+    this.videoStream = null;
+    this.recorder = null;
+  }
+
+  private startComposite(source: HTMLCanvasElement, overlay: RecordingOverlay): MediaStream {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("2D canvas unavailable for recording overlay");
+
+    // Match the on-screen layout, which is sized in CSS pixels
+    const scale = source.width / Math.max(source.clientWidth, 1);
+
+    const draw = () => {
+      const { width, height } = canvas;
+      ctx.drawImage(source, 0, 0, width, height);
+      this.drawTitle(ctx, overlay, scale);
+
+      const camera = overlay.camera;
+      if (camera && camera.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && camera.videoWidth > 0) {
+        this.drawCamera(ctx, camera, overlay.mirrorCamera, width, height, scale);
+      }
+    };
+    // Drawn in the same task as the render, while the WebGL drawing buffer still holds the frame,
+    // so the scene canvas doesn't need preserveDrawingBuffer
+    this.stopCompositing = addAfterEffect(draw);
+    return canvas.captureStream(FRAME_RATE);
+  }
+
+  private drawTitle(ctx: CanvasRenderingContext2D, overlay: RecordingOverlay, scale: number) {
+    const margin = 32 * scale;
+    ctx.save();
+    ctx.textBaseline = 'top';
+    ctx.shadowColor = 'rgba(230, 178, 184, 0.6)';
+    ctx.shadowBlur = 15 * scale;
+    ctx.fillStyle = '#E6B2B8';
+    ctx.font = `${48 * scale}px Cinzel, serif`;
+    ctx.fillText(overlay.title, margin, margin);
+    ctx.shadowBlur = 0;
+    ctx.fillStyle = '#D14768';
+    ctx.font = `${18 * scale}px Cinzel, serif`;
+    ctx.fillText(overlay.subtitle.toUpperCase(), margin, margin + 60 * scale);
+    ctx.restore();
+  }
+
+  private drawCamera(
+    ctx: CanvasRenderingContext2D,
+    camera: HTMLVideoElement,
+    mirror: boolean,
+    width: number,
+    height: number,
+    scale: number
+  ) {
+    const w = width * PREVIEW_WIDTH_SHARE;
+    const h = w / PREVIEW_ASPECT;
+    const x = width - w - 16 * scale;
+    const y = height - h - 16 * scale;
+
+    // Crop the camera frame to the preview's aspect, like object-cover
+    const sourceAspect = camera.videoWidth / camera.videoHeight;
+    const sw = sourceAspect > PREVIEW_ASPECT ? camera.videoHeight * PREVIEW_ASPECT : camera.videoWidth;
+    const sh = sourceAspect > PREVIEW_ASPECT ? camera.videoHeight : camera.videoWidth / PREVIEW_ASPECT;
+    const sx = (camera.videoWidth - sw) / 2;
+    const sy = (camera.videoHeight - sh) / 2;
+
+    ctx.save();
+    if (mirror) {
+      ctx.translate(x * 2 + w, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(camera, sx, sy, sw, sh, x, y, w, h);
+    ctx.restore();
+    ctx.strokeStyle = 'rgba(230, 178, 184, 0.5)';
+    ctx.lineWidth = 2 * scale;
+    ctx.strokeRect(x, y, w, h);
+  }
+}
@@ -0,0 +1,29 @@
+const KEY_PREFIX = 'otman.';
+
+// Small localStorage wrapper for user preferences.
+// Falls back to the default when storage is blocked or the saved value is unreadable.
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (e) {
+    console.warn(`Failed to read setting "${key}":`, e);
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Failed to save setting "${key}":`, e);
+  }
+}
+
+export function removeSetting(key: string) {
+  try {
+    localStorage.removeItem(KEY_PREFIX + key);
+  } catch (e) {
+    // Nothing to clean up if storage is blocked
+  }
+}
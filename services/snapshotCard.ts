@@ -0,0 +1,103 @@
+import { SnapshotFrame, Theme } from '../types';
+
+const CAPTION_FONT = 'Cinzel';
+// Proportions relative to the scene width
+const CARD_MARGIN = 0.045;
+const CARD_CAPTION_BAND = 0.11;
+const BORDER_INSET = 0.025;
+const CAPTION_SIZE = 0.04;
+
+type Palette = Theme['palette'];
+
+function fitFont(ctx: CanvasRenderingContext2D, text: string, size: number, maxWidth: number) {
+  ctx.font = `700 ${size}px ${CAPTION_FONT}, serif`;
+  const width = ctx.measureText(text).width;
+  if (width > maxWidth) ctx.font = `700 ${size * (maxWidth / width)}px ${CAPTION_FONT}, serif`;
+}
+
+// A small four-pointed sparkle, used on the corners of the frames
+function sparkle(ctx: CanvasRenderingContext2D, x: number, y: number, r: number) {
+  ctx.beginPath();
+  for (let i = 0; i < 8; i++) {
+    const angle = (i * Math.PI) / 4 - Math.PI / 2;
+    const radius = i % 2 === 0 ? r : r * 0.25;
+    ctx.lineTo(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+  ctx.fill();
+}
+
+function doubleRule(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, unit: number, palette: Palette) {
+  ctx.strokeStyle = palette.glow;
+  ctx.lineWidth = unit * 0.0025;
+  ctx.strokeRect(x, y, w, h);
+  const gap = unit * 0.008;
+  ctx.strokeStyle = palette.primary;
+  ctx.lineWidth = unit * 0.001;
+  ctx.strokeRect(x + gap, y + gap, w - gap * 2, h - gap * 2);
+
+  ctx.fillStyle = palette.glow;
+  for (const [cx, cy] of [[x, y], [x + w, y], [x, y + h], [x + w, y + h]]) {
+    sparkle(ctx, cx, cy, unit * 0.018);
+  }
+}
+
+/**
+ * Lays a rendered frame of the scene out as a still: bare, inside a gilded border,
+ * or on a greeting card with the caption underneath. Colors come from the theme.
+ */
+export async function composeSnapshot(
+  scene: HTMLCanvasElement,
+  frame: SnapshotFrame,
+  caption: string,
+  palette: Palette
+): Promise<Blob | null> {
+  const text = caption.trim();
+  // Canvas falls back to a default font silently if the webfont isn't ready yet
+  if (text) await document.fonts?.load(`700 16px ${CAPTION_FONT}`).catch(() => undefined);
+
+  const unit = scene.width;
+  const margin = frame === 'card' ? unit * CARD_MARGIN : 0;
+  const band = frame === 'card' ? unit * (text ? CARD_CAPTION_BAND : CARD_MARGIN) : 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = scene.width + margin * 2;
+  canvas.height = scene.height + margin + band;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = palette.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(scene, margin, margin);
+
+  if (frame === 'border') {
+    const inset = unit * BORDER_INSET;
+    doubleRule(ctx, inset, inset, canvas.width - inset * 2, canvas.height - inset * 2, unit, palette);
+  } else if (frame === 'card') {
+    const inset = margin * 0.5;
+    doubleRule(ctx, inset, inset, canvas.width - inset * 2, canvas.height - inset * 2, unit, palette);
+    ctx.strokeStyle = palette.primary;
+    ctx.lineWidth = unit * 0.0015;
+    ctx.strokeRect(margin, margin, scene.width, scene.height);
+  }
+
+  if (text) {
+    ctx.save();
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    fitFont(ctx, text, unit * CAPTION_SIZE, scene.width * 0.85);
+    ctx.fillStyle = palette.primary;
+    const y = frame === 'card'
+      ? margin + scene.height + band / 2
+      : canvas.height - unit * (BORDER_INSET + CAPTION_SIZE * 1.5);
+    if (frame !== 'card') {
+      // Over the scene itself, so lift it off whatever is behind
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+      ctx.shadowBlur = unit * 0.01;
+    }
+    ctx.fillText(text, canvas.width / 2, y);
+    ctx.restore();
+  }
+
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+}
@@ -0,0 +1,78 @@
+import { loadSetting, saveSetting } from './settingsStorage';
+import { Theme, ThemeMaterial } from '../types';
+import { DEFAULT_THEME, THEME_PRESETS } from '../constants';
+
+const ACTIVE_THEME_SETTING_KEY = 'themeId';
+const CUSTOM_THEMES_SETTING_KEY = 'customThemes';
+
+const isColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const nonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+
+// Field-by-field merge so a hand-edited file only needs the values it changes
+function mergeMaterial(base: ThemeMaterial, input: unknown): ThemeMaterial {
+  const fields = isRecord(input) ? input : {};
+  return {
+    metalness: isNumber(fields.metalness) ? fields.metalness : base.metalness,
+    roughness: isNumber(fields.roughness) ? fields.roughness : base.roughness,
+    emissive: isColor(fields.emissive) ? fields.emissive : base.emissive,
+    emissiveIntensity: isNumber(fields.emissiveIntensity) ? fields.emissiveIntensity : base.emissiveIntensity,
+  };
+}
+
+/**
+ * Reads a theme from exported JSON. Missing or malformed fields fall back to the default theme;
+ * throws if the text isn't a JSON object at all.
+ */
+export function parseTheme(json: string): Theme {
+  const input: unknown = JSON.parse(json);
+  if (!isRecord(input)) {
+    throw new Error("Theme file must contain a JSON object");
+  }
+
+  const palette = { ...DEFAULT_THEME.palette };
+  const inputPalette = isRecord(input.palette) ? input.palette : {};
+  for (const key of Object.keys(palette) as (keyof Theme['palette'])[]) {
+    const color = inputPalette[key];
+    if (isColor(color)) palette[key] = color;
+  }
+
+  const materials = isRecord(input.materials) ? input.materials : {};
+  const name = nonEmptyString(input.name) ? input.name.trim() : 'Imported Theme';
+  return {
+    id: nonEmptyString(input.id) ? input.id : `custom-${Date.now()}`,
+    name,
+    subtitle: typeof input.subtitle === 'string' ? input.subtitle : `${name} Edition`,
+    palette,
+    materials: {
+      sphere: mergeMaterial(DEFAULT_THEME.materials.sphere, materials.sphere),
+      cube: mergeMaterial(DEFAULT_THEME.materials.cube, materials.cube),
+      cylinder: mergeMaterial(DEFAULT_THEME.materials.cylinder, materials.cylinder),
+    },
+    bloomIntensity: isNumber(input.bloomIntensity) ? input.bloomIntensity : DEFAULT_THEME.bloomIntensity,
+    ...(nonEmptyString(input.musicUrl) ? { musicUrl: input.musicUrl } : {}),
+  };
+}
+
+export function themeToBlob(theme: Theme): Blob {
+  return new Blob([JSON.stringify(theme, null, 2)], { type: 'application/json' });
+}
+
+/** Imported themes; ids never clash with presets. */
+export function loadCustomThemes(): Theme[] {
+  return loadSetting<Theme[]>(CUSTOM_THEMES_SETTING_KEY, [])
+    .filter(theme => !THEME_PRESETS.some(preset => preset.id === theme.id));
+}
+
+export function saveCustomThemes(themes: Theme[]) {
+  saveSetting(CUSTOM_THEMES_SETTING_KEY, themes);
+}
+
+export function loadActiveThemeId(): string {
+  return loadSetting<string>(ACTIVE_THEME_SETTING_KEY, DEFAULT_THEME.id);
+}
+
+export function saveActiveThemeId(id: string) {
+  saveSetting(ACTIVE_THEME_SETTING_KEY, id);
+}
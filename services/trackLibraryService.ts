@@ -0,0 +1,84 @@
+import { StoredTrack } from '../types';
+import { TRACK_STORE, openDatabase, promisify, transactionDone } from './indexedDb';
+
+/**
+ * Keeps uploaded music (the raw blobs, names and playlist order) in IndexedDB
+ * so the playlist survives page reloads.
+ * Every method degrades to a no-op when IndexedDB is unavailable (private mode, old browsers).
+ */
+export class TrackLibraryService {
+  private dbPromise: Promise<IDBDatabase | null>;
+
+  constructor() {
+    this.dbPromise = openDatabase();
+  }
+
+  /** Returns every stored track, sorted by playlist order. */
+  public async loadAll(): Promise<StoredTrack[]> {
+    const db = await this.dbPromise;
+    if (!db) return [];
+
+    try {
+      const tx = db.transaction(TRACK_STORE, 'readonly');
+      const records = await promisify(tx.objectStore(TRACK_STORE).getAll()) as StoredTrack[];
+      return records.sort((a, b) => a.order - b.order);
+    } catch (e) {
+      console.warn("Failed to load playlist:", e);
+      return [];
+    }
+  }
+
+  /** Appends files to the end of the playlist and returns the records that were written. */
+  public async addTracks(files: File[]): Promise<StoredTrack[]> {
+    const toRecords = (firstOrder: number): StoredTrack[] => files.map((file, i) => ({
+      id: crypto.randomUUID(),
+      blob: file,
+      name: file.name.replace(/\.[^.]+$/, ''),
+      order: firstOrder + i
+    }));
+
+    const db = await this.dbPromise;
+    if (!db) return toRecords(0);
+
+    let records: StoredTrack[] = [];
+    try {
+      // Same transaction for reading the last order and writing, as with photos
+      const tx = db.transaction(TRACK_STORE, 'readwrite');
+      const store = tx.objectStore(TRACK_STORE);
+      const existing = await promisify(store.getAll()) as StoredTrack[];
+      records = toRecords(existing.reduce((max, record) => Math.max(max, record.order + 1), 0));
+      records.forEach(record => store.put(record));
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to save tracks:", e);
+      if (records.length === 0) records = toRecords(0);
+    }
+    return records;
+  }
+
+  public async removeTrack(id: string) {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(TRACK_STORE, 'readwrite');
+      tx.objectStore(TRACK_STORE).delete(id);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to remove track:", e);
+    }
+  }
+
+  public async clear() {
+    const db = await this.dbPromise;
+    if (!db) return;
+
+    try {
+      const tx = db.transaction(TRACK_STORE, 'readwrite');
+      tx.objectStore(TRACK_STORE).clear();
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Failed to clear playlist:", e);
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { ShapeGenerator, TreeShape, Vec3 } from '../types';
+import { CONFIG } from '../constants';
+
+type Point2 = [number, number];
+
+// Flat figures are given some depth so they still read as 3D when the camera orbits
+const FLAT_DEPTH = 1.2;
+const FLAT_OUTLINE_SHARE = 0.35; // Fraction of ornaments traced along the edge to keep it crisp
+const FLAT_WIDTH = CONFIG.TREE_RADIUS_BASE * 2.4;
+const PHOTO_OFFSET = 2.0;
+const SPIRAL_TURNS = 5;
+const MAX_SAMPLE_ATTEMPTS = 50;
+
+const H = CONFIG.TREE_HEIGHT;
+const R = CONFIG.TREE_RADIUS_BASE;
+
+const cone: ShapeGenerator = {
+  flat: false,
+  // Golden-angle spacing up a cone, with radial jitter so it looks filled rather than hollow
+  ornaments(count) {
+    const phi = Math.PI * (3 - Math.sqrt(5));
+    return Array.from({ length: count }, (_, i) => {
+      const t = i / count;
+      const maxRadius = (1 - t) * R;
+      const r = maxRadius * (0.3 + 0.7 * Math.sqrt(Math.random()));
+      return [r * Math.cos(i * phi), t * H - H / 2, r * Math.sin(i * phi)];
+    });
+  },
+  photos(count) {
+    return Array.from({ length: count }, (_, i) => {
+      const t = i / count;
+      const radius = (1 - t) * R + PHOTO_OFFSET;
+      return [radius * Math.cos(i * 2.5), (1 - t) * H - H / 2, radius * Math.sin(i * 2.5)];
+    });
+  }
+};
+
+// A ribbon winding up a cone
+const helixPoint = (t: number, radiusOffset: number): Vec3 => {
+  const angle = t * SPIRAL_TURNS * Math.PI * 2;
+  const radius = (1 - t) * R + radiusOffset;
+  return [radius * Math.cos(angle), t * H - H / 2, radius * Math.sin(angle)];
+};
+
+const spiral: ShapeGenerator = {
+  flat: false,
+  ornaments(count) {
+    return Array.from({ length: count }, (_, i) => {
+      const [x, y, z] = helixPoint(i / count, 0);
+      const jitter = () => (Math.random() - 0.5) * 0.8;
+      return [x + jitter(), y + jitter(), z + jitter()];
+    });
+  },
+  photos(count) {
+    // Spread over the lower 90% so the top photo isn't crammed into the tip
+    return Array.from({ length: count }, (_, i) => helixPoint((i / Math.max(count, 1)) * 0.9, PHOTO_OFFSET));
+  }
+};
+
+/** A closed 2D figure in its own units, y pointing up. */
+interface Figure2D {
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  contains(x: number, y: number): boolean;
+  outline(count: number): Point2[]; // Evenly spaced along the edge
+}
+
+/**
+ * Turns a 2D figure into a shape: scaled to the tree's height (or width, if wider),
+ * filled with ornaments plus a traced edge, and photos spread along the edge in front.
+ */
+function flatShape(figure: Figure2D): ShapeGenerator {
+  const { minX, minY, maxX, maxY } = figure.bounds;
+  const width = Math.max(maxX - minX, 1e-6);
+  const height = Math.max(maxY - minY, 1e-6);
+  const scale = Math.min(H / height, FLAT_WIDTH / width);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const toWorld = ([x, y]: Point2, z: number): Vec3 => [(x - cx) * scale, (y - cy) * scale, z];
+
+  const randomInside = (): Point2 | null => {
+    for (let attempt = 0; attempt < MAX_SAMPLE_ATTEMPTS; attempt++) {
+      const x = minX + Math.random() * width;
+      const y = minY + Math.random() * height;
+      if (figure.contains(x, y)) return [x, y];
+    }
+    return null;
+  };
+
+  return {
+    flat: true,
+    ornaments(count) {
+      const edgeCount = Math.round(count * FLAT_OUTLINE_SHARE);
+      const edge = figure.outline(edgeCount);
+      const fillCount = count - edge.length;
+      const fallbackEdge = figure.outline(fillCount);
+      const fill = Array.from({ length: fillCount }, (_, i) => randomInside() ?? fallbackEdge[i]);
+      return [...edge, ...fill].map(p => toWorld(p, (Math.random() - 0.5) * 2 * FLAT_DEPTH));
+    },
+    photos(count) {
+      return figure.outline(count).map(p => toWorld(p, FLAT_DEPTH + 1));
+    }
+  };
+}
+
+function polygonFigure(vertices: Point2[]): Figure2D {
+  const xs = vertices.map(v => v[0]);
+  const ys = vertices.map(v => v[1]);
+  const edges = vertices.map((v, i) => [v, vertices[(i + 1) % vertices.length]] as [Point2, Point2]);
+  const lengths = edges.map(([a, b]) => Math.hypot(b[0] - a[0], b[1] - a[1]));
+  const perimeter = lengths.reduce((sum, l) => sum + l, 0);
+
+  return {
+    bounds: { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) },
+    // Even-odd ray casting
+    contains(x, y) {
+      let inside = false;
+      for (const [a, b] of edges) {
+        if ((a[1] > y) !== (b[1] > y) && x < a[0] + ((y - a[1]) / (b[1] - a[1])) * (b[0] - a[0])) {
+          inside = !inside;
+        }
+      }
+      return inside;
+    },
+    outline(count) {
+      const points: Point2[] = [];
+      for (let n = 0; n < count; n++) {
+        let distance = (n / count) * perimeter;
+        let e = 0;
+        while (e < edges.length - 1 && distance > lengths[e]) {
+          distance -= lengths[e];
+          e++;
+        }
+        const [a, b] = edges[e];
+        const f = lengths[e] > 0 ? distance / lengths[e] : 0;
+        points.push([a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f]);
+      }
+      return points;
+    }
+  };
+}
+
+const starVertices = (points: number, inner: number): Point2[] =>
+  Array.from({ length: points * 2 }, (_, i) => {
+    const radius = i % 2 === 0 ? 1 : inner;
+    const angle = Math.PI / 2 + (i * Math.PI) / points;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+
+// The classic parametric heart curve
+const heartVertices = (segments: number): Point2[] =>
+  Array.from({ length: segments }, (_, i) => {
+    const t = (i / segments) * Math.PI * 2;
+    return [
+      16 * Math.pow(Math.sin(t), 3),
+      13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)
+    ];
+  });
+
+/**
+ * Builds a shape from SVG path data, e.g. a logo or text converted to outlines.
+ * Uses the browser's SVG and canvas geometry, so it has to run in a document.
+ * Returns null if the path is invalid or empty.
+ */
+export function createSvgPathShape(pathData: string): ShapeGenerator | null {
+  if (!pathData.trim() || typeof document === 'undefined') return null;
+
+  // Geometry queries need the path attached to a rendered document
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.setAttribute('style', 'position:absolute;width:0;height:0;visibility:hidden');
+  const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+  path.setAttribute('d', pathData);
+  svg.appendChild(path);
+  document.body.appendChild(svg);
+
+  try {
+    const box = path.getBBox();
+    const totalLength = path.getTotalLength();
+    if (box.width === 0 || box.height === 0 || totalLength === 0) return null;
+
+    // Precompute the outline once; it's cheap to index into later
+    const edge: Point2[] = Array.from({ length: 512 }, (_, i) => {
+      const p = path.getPointAtLength((i / 512) * totalLength);
+      return [p.x, -p.y]; // SVG y points down
+    });
+
+    const ctx = document.createElement('canvas').getContext('2d');
+    const path2d = new Path2D(pathData);
+
+    return flatShape({
+      bounds: { minX: box.x, minY: -(box.y + box.height), maxX: box.x + box.width, maxY: -box.y },
+      contains: (x, y) => !!ctx?.isPointInPath(path2d, x, -y, 'evenodd'),
+      outline: (count) => Array.from({ length: count }, (_, i) => edge[Math.floor((i / count) * edge.length)])
+    });
+  } catch (e) {
+    console.warn("Invalid SVG path for tree shape:", e);
+    return null;
+  } finally {
+    svg.remove();
+  }
+}
+
+// SVG_PATH needs user data, so it's built with createSvgPathShape instead
+export const TREE_SHAPES: Record<Exclude<TreeShape, TreeShape.SVG_PATH>, ShapeGenerator> = {
+  [TreeShape.CONE]: cone,
+  [TreeShape.SPIRAL]: spiral,
+  [TreeShape.STAR]: flatShape(polygonFigure(starVertices(5, 0.42))),
+  [TreeShape.HEART]: flatShape(polygonFigure(heartVertices(128)))
+};
+
+/** The generator for a shape, falling back to the cone if a custom path can't be used. */
+export function resolveTreeShape(shape: TreeShape, svgPath: string): ShapeGenerator {
+  if (shape === TreeShape.SVG_PATH) return createSvgPathShape(svgPath) ?? cone;
+  return TREE_SHAPES[shape];
+}
+
+/** Joins every <path> in an SVG document into one path string. Transforms are not applied. */
+export function extractSvgPathData(svgText: string): string {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  return Array.from(doc.querySelectorAll('path'))
+    .map(p => p.getAttribute('d') ?? '')
+    .filter(Boolean)
+    .join(' ');
+}
@@ -1,14 +1,73 @@
 export enum AppState {
   TREE = 'TREE',       // Fist: Coalesce into a tree
   SCATTER = 'SCATTER', // Open Hand: Float around
-  ZOOM = 'ZOOM'        // Two Fingers: Inspect a photo
+  ZOOM = 'ZOOM',       // Two Fingers: Inspect a photo
+  PICTURE = 'PICTURE'  // Ornaments draw an uploaded image or greeting
 }
 
 export enum HandGesture {
   NONE = 'NONE',
   FIST = 'FIST',
   OPEN_PALM = 'OPEN_PALM',
-  TWO_FINGERS = 'TWO_FINGERS' // Replaces PINCH (Victory sign / Peace sign)
+  TWO_FINGERS = 'TWO_FINGERS', // Victory sign / Peace sign
+  THUMBS_UP = 'THUMBS_UP',
+  POINT = 'POINT',             // Index finger only
+  PINCH = 'PINCH',             // Thumb and index tips touching, other fingers curled
+  OK = 'OK'                    // Thumb and index tips touching, other fingers extended
+}
+
+// Confidence 0-1 for each gesture the classifier considered
+export type GestureScores = Partial<Record<HandGesture, number>>;
+
+// Per-user tuning for the classifier and debounce, fitted by the calibration wizard
+export interface GestureThresholds {
+  foldRatios: [number, number, number, number]; // Index, middle, ring, pinky: tip/PIP-to-wrist ratio where the finger counts as folded
+  extensionRange: number;    // Ratio span between "clearly folded" and "clearly extended"
+  pinchContact: number;      // Thumb-index distance (in palm sizes) that is a definite touch
+  pinchRelease: number;      // ...and where it stops counting at all
+  debounceWindow: number;    // Frames of gesture history kept
+  debounceMinFrames: number; // Frames within the window a gesture must hold to be emitted
+}
+
+export interface CalibrationProfile {
+  name: string;
+  thresholds: GestureThresholds;
+  createdAt: string; // ISO date
+}
+
+// Raw per-hand measurements the classifier works from
+export interface HandMeasurement {
+  fingerRatios: [number, number, number, number]; // Same order as GestureThresholds.foldRatios
+  pinchDistance: number; // Thumb-index tip distance in palm sizes
+}
+
+export interface GestureClassification {
+  gesture: HandGesture;
+  confidence: number;
+  scores: GestureScores;
+}
+
+// Everything a gesture can be bound to
+export enum GestureAction {
+  NONE = 'NONE',
+  SHOW_TREE = 'SHOW_TREE',
+  SHOW_SCATTER = 'SHOW_SCATTER',
+  SHOW_ZOOM = 'SHOW_ZOOM',
+  SHOW_PICTURE = 'SHOW_PICTURE',
+  NEXT_PHOTO = 'NEXT_PHOTO',
+  PREV_PHOTO = 'PREV_PHOTO',
+  TOGGLE_MUSIC = 'TOGGLE_MUSIC',
+  TAKE_SNAPSHOT = 'TAKE_SNAPSHOT',
+  TOGGLE_RECORDING = 'TOGGLE_RECORDING'
+}
+
+// For each AppState, what each gesture does when it is first recognized
+export type GestureBindings = Record<AppState, Partial<Record<HandGesture, GestureAction>>>;
+
+export enum InputSource {
+  HAND = 'HAND',       // Webcam + MediaPipe
+  POINTER = 'POINTER', // Mouse + keyboard fallback
+  TOUCH = 'TOUCH'      // Tablets and phones
 }
 
 export interface ParticleData {
@@ -16,15 +75,261 @@ export interface ParticleData {
   initialPos: [number, number, number];
   treePos: [number, number, number];
   scatterPos: [number, number, number];
+  picturePos: [number, number, number];
+  pictureColor: string; // Tint sampled from the picture, '' to keep the ornament's own color
   type: 'SPHERE' | 'CUBE' | 'CYLINDER' | 'PHOTO';
   color: string;
   scale: number;
   photoUrl?: string;
+  photo?: Photo; // Set on PHOTO particles
   rotationSpeed: [number, number, number];
 }
 
+export type Vec3 = [number, number, number];
+
+// Figures the particles can gather into in the TREE state
+export enum TreeShape {
+  CONE = 'CONE',
+  SPIRAL = 'SPIRAL',
+  STAR = 'STAR',
+  HEART = 'HEART',
+  SVG_PATH = 'SVG_PATH' // Text or logo outline supplied by the user
+}
+
+// Produces the gathered positions for ornaments and photos, centered on the origin
+export interface ShapeGenerator {
+  ornaments(count: number): Vec3[];
+  photos(count: number): Vec3[]; // Kept just outside the ornaments so photos stay visible
+  flat: boolean; // 2D figures: photos face the camera instead of facing outwards
+}
+
+// What the PICTURE formation draws
+export type PictureSource =
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; image: Blob };
+
+// One target position and tint per ornament
+export interface PictureLayout {
+  positions: Vec3[];
+  colors: string[];
+}
+
+// Gestures recognized from how the palm moves over time rather than its pose
+export enum MotionGesture {
+  NONE = 'NONE',
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  SWIPE_UP = 'SWIPE_UP',
+  SWIPE_DOWN = 'SWIPE_DOWN',
+  STIR_CW = 'STIR_CW',   // Circular motion, clockwise as seen on screen
+  STIR_CCW = 'STIR_CCW'
+}
+
+export enum TwoHandGesture {
+  NONE = 'NONE',
+  SPREAD = 'SPREAD',               // Both hands open: distance between them scales the tree
+  ROTATE = 'ROTATE',               // Both hands fists: turning the pair spins the tree
+  POINT_CONFIRM = 'POINT_CONFIRM'  // One hand points at a photo, the other closes to confirm
+}
+
+export type Handedness = 'Left' | 'Right';
+
+export interface HandData {
+  handedness: Handedness;
+  gesture: HandGesture;
+  position: { x: number; y: number }; // Normalized 0-1, mirrored like the primary position
+  confidence: number;
+}
+
+export interface TwoHandData {
+  gesture: TwoHandGesture;
+  distance: number; // Distance between palms in normalized screen units
+  angle: number;    // Angle of the line from left to right palm, radians
+}
+
 export interface HandTrackingResult {
   gesture: HandGesture;
   position: { x: number; y: number }; // Normalized 0-1
   isPresent: boolean;
-}
\ No newline at end of file
+  cursor?: { x: number; y: number }; // Normalized 0-1. Selection point when it differs from position (touch taps)
+  confidence?: number;   // Confidence of the emitted gesture, when the source can tell
+  scores?: GestureScores; // Raw per-gesture scores of the latest frame
+  hands?: HandData[];      // Every tracked hand (two-hand mode only)
+  twoHand?: TwoHandData;   // Derived bimanual gesture (two-hand mode only)
+  motion?: MotionGesture;  // Set only on the frame a swipe or stir completes
+}
+
+export interface PhotoMetadata {
+  caption: string;
+  date: string | null; // yyyy-mm-dd
+  uploader: string;
+}
+
+export interface StoredPhoto extends PhotoMetadata {
+  id: string;
+  blob: Blob;
+  order: number; // Position in the album
+}
+
+export type PhotoKind = 'image' | 'video';
+
+// A photo (or short video clip) in the album, as shown in the scene
+export interface Photo extends PhotoMetadata {
+  id: string;
+  url: string;
+  kind: PhotoKind;
+}
+
+export interface StoredTrack {
+  id: string;
+  blob: Blob;
+  name: string;
+  order: number; // Position in the playlist
+}
+
+// A playable entry: an uploaded track or the theme's default music
+export interface Track {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlaybackSettings {
+  volume: number; // 0..1
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+
+
+export interface Landmark {
+  x: number; // Normalized 0-1 in the (unmirrored) camera image
+  y: number;
+  z: number;
+}
+
+// The subset of MediaPipe Hands results the app reads
+export interface HandResults {
+  multiHandLandmarks?: Landmark[][];
+  multiHandedness?: { label: Handedness; score: number }[];
+}
+
+// Anything that can push HandResults into HandController: the live camera or a replay
+export interface HandResultsSource {
+  start(): Promise<void>;
+  stop(): void;
+}
+
+export interface LandmarkFrame extends HandResults {
+  t: number; // ms since recording started
+}
+
+export interface LandmarkRecording {
+  version: 1;
+  recordedAt: string; // ISO date
+  frames: LandmarkFrame[];
+}
+
+// Live numbers shared between the render loop, hand tracking and the debug overlay
+export interface PerformanceStats {
+  renderFps: number;
+  inferenceFps: number;
+  inferenceLatencyMs: number;
+  inferenceIntervalMs: number; // Current throttle between inference frames
+  inferenceMode: 'worker' | 'main-thread' | 'off';
+  qualityTier: QualityTier; // Tier the scene is rendering at
+  qualityAuto: boolean;     // Whether that tier was picked from measured frame times
+  photoTextureBytes: number; // GPU memory held by photo textures
+}
+
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualityPreference = 'auto' | QualityTier;
+
+// What each rendering tier spends the GPU on
+export interface QualityProfile {
+  particleCount: number;
+  sphereSegments: number;
+  cylinderSegments: number;
+  postProcessing: boolean; // Bloom and vignette
+  multisampling: number;   // MSAA samples in the post-processing pass
+  maxDpr: number;
+  environment: boolean;    // City environment map for reflections
+  videoPlayback: boolean;  // Video ornaments play outside of zoom; otherwise they hold a poster frame
+  shadows: boolean;
+}
+
+// Music features for the current frame, all 0..1 and already scaled by the user's sensitivity
+export interface AudioLevels {
+  bass: number;
+  mid: number;
+  treble: number;
+  beat: number; // Jumps to 1 on a detected beat, then decays
+}
+
+export type CameraResolution = '480p' | '720p' | '1080p';
+
+// Which camera feeds hand tracking, persisted between sessions
+export interface CameraSettings {
+  deviceId: string | null; // null = browser default (front camera)
+  resolution: CameraResolution;
+  mirror: boolean; // Selfie-style view; turn off for cameras that don't face the user
+}
+
+export interface RecordingSettings {
+  maxDurationSeconds: number; // Recording stops by itself after this long
+  includeOverlay: boolean;    // Composite the camera preview and title onto the video
+}
+
+// How photo ornaments are framed
+export type PhotoFrameStyle = 'gold' | 'polaroid' | 'bauble';
+
+export type SnapshotResolution = 'hd' | 'qhd' | '4k';
+export type SnapshotFrame = 'none' | 'border' | 'card';
+
+// High-resolution stills, optionally framed as a greeting card
+export interface SnapshotSettings {
+  resolution: SnapshotResolution;
+  frame: SnapshotFrame;
+  caption: string; // Left off when empty
+}
+
+export type CameraStatus =
+  | 'loading'
+  | 'ready'
+  | 'permission-denied'
+  | 'no-camera'
+  | 'in-use'
+  | 'insecure-context'
+  | 'unsupported'
+  | 'tracking-unavailable';
+
+// Look of one ornament family
+export interface ThemeMaterial {
+  metalness: number;
+  roughness: number;
+  emissive: string;
+  emissiveIntensity: number;
+}
+
+// Everything that gives the scene its look; presets live in constants, users can import more as JSON
+export interface Theme {
+  id: string;
+  name: string;
+  subtitle: string; // Shown under the title
+  palette: {
+    primary: string;   // Sphere ornaments, photo frames, key light
+    secondary: string; // Cylinder ornaments, fill light
+    tertiary: string;  // Cube ornaments
+    glow: string;      // Highlights, e.g. the top of picture text
+    background: string;
+    fog: string;
+  };
+  materials: {
+    sphere: ThemeMaterial;
+    cube: ThemeMaterial;
+    cylinder: ThemeMaterial;
+  };
+  bloomIntensity: number;
+  musicUrl?: string; // Default background music unless the user picked their own; none without it
+}
@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL for MediaPipe's wasm / model files, defaults to the copy bundled under /mediapipe/ */
+  readonly VITE_MEDIAPIPE_BASE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}